@@ -0,0 +1,281 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import TrendChart, { Sparkline } from '@/components/TrendChart';
+import ExportDialog, { ExportSection } from '@/components/ExportDialog';
+import { exportElements, ImageExportSettings } from '@/lib/imageExport';
+import { AccountData } from '@/lib/excelReader';
+import { findMetric, formatMetricValue, getMetricValue } from '@/lib/metrics';
+import styles from './page.module.css';
+
+interface AccountHistoryEntry {
+  month: string;
+  data: AccountData | null;
+}
+
+interface MonthValue {
+  month: string;
+  value: number;
+}
+
+interface MetricExtremes {
+  key: string;
+  label: string;
+  best: MonthValue | null;
+  worst: MonthValue | null;
+}
+
+interface AccountHistory {
+  name: string;
+  accountKey: string;
+  history: AccountHistoryEntry[];
+  extremes: MetricExtremes[];
+  failedMonths: string[];
+}
+
+// 可单独导出的卡片
+const EXPORT_SECTIONS: ExportSection[] = [
+  { id: 'rank', label: '总排名走势' },
+  { id: 'overview', label: '指标概览' },
+  { id: 'monthly', label: '月度完整数据' },
+];
+
+const RANK_COLOR = '#1890ff';
+const SPARKLINE_COLOR = '#722ed1';
+
+// 格式化月份显示
+function formatMonthDisplay(monthCode: string): string {
+  const match = monthCode.match(/^(\d{4})(\d{2})$/);
+  if (match) {
+    return `${match[1]}年${parseInt(match[2])}月`;
+  }
+  return monthCode;
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '-';
+  }
+  return typeof value === 'number' ? value.toLocaleString('zh-CN') : value.toString();
+}
+
+// 路由参数可能已经解码，账号名本身含有 % 时（如"100%干货"）再解码会出错，此时直接使用原值
+function decodeAccountName(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+export default function AccountPage({ params }: { params: { name: string } }) {
+  const name = decodeAccountName(params.name);
+  const [account, setAccount] = useState<AccountHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  const [showExport, setShowExport] = useState(false);
+  const cardRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const response = await fetch(`/api/account-history?name=${encodeURIComponent(name)}`);
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          setError(`加载数据失败: ${result.error || response.statusText}`);
+          return;
+        }
+        setAccount(result);
+      } catch (err) {
+        setError(`加载数据失败: ${err instanceof Error ? err.message : '网络错误'}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [name]);
+
+  // 只显示账号有数据的月份区间，两端没有数据的月份不计入
+  const history = account?.history || [];
+  const firstIndex = history.findIndex(entry => entry.data);
+  const lastIndex = history.length - 1 - [...history].reverse().findIndex(entry => entry.data);
+  const entries = firstIndex >= 0 ? history.slice(firstIndex, lastIndex + 1) : [];
+  const monthLabels = entries.map(entry => formatMonthDisplay(entry.month));
+  const rankMetric = findMetric('总排名')!;
+  const rankValues = entries.map(entry => entry.data ? getMetricValue(rankMetric, entry.data) : null);
+
+  // 完整数据表的列：所有月份出现过的字段
+  const fields: string[] = [];
+  entries.forEach(entry => {
+    Object.keys(entry.data || {}).forEach(field => {
+      if (field !== 'accountKey' && !fields.includes(field)) {
+        fields.push(field);
+      }
+    });
+  });
+
+  const cardRef = (id: string) => (element: HTMLDivElement | null) => {
+    cardRefs.current[id] = element;
+  };
+
+  // 导出图片或 PDF：全部卡片或其中一张
+  const exportToImage = async (settings: ImageExportSettings, sectionIds: string[]) => {
+    const elements = sectionIds
+      .map(id => cardRefs.current[id])
+      .filter((element): element is HTMLDivElement => !!element);
+    await exportElements(elements, settings, settings.title);
+  };
+
+  return (
+    <div className={styles.container}>
+      {/* 顶部工具栏 */}
+      <div className={styles.toolbar}>
+        <div className={styles.titleSection}>
+          <a href="/" className={styles.backLink}>← 竞家数据统计看板</a>
+          <div className={styles.title}>{account?.name || name}</div>
+          {entries.length > 0 && (
+            <div className={styles.subtitle}>
+              {monthLabels[0]} - {monthLabels[monthLabels.length - 1]}，共 {entries.filter(entry => entry.data).length} 个月有数据
+            </div>
+          )}
+        </div>
+        {account && entries.length > 0 && (
+          <button className={styles.exportButton} onClick={() => setShowExport(true)}>
+            导出图片
+          </button>
+        )}
+      </div>
+
+      {/* 错误提示 */}
+      {error && (
+        <div className={styles.errorAlert}>
+          <span className={styles.errorText}>⚠️ {error}</span>
+          <button
+            className={styles.errorClose}
+            onClick={() => setError('')}
+          >
+            ×
+          </button>
+        </div>
+      )}
+
+      {account && account.failedMonths.length > 0 && (
+        <div className={styles.warningAlert}>
+          以下月份的数据文件读取失败，未计入：{account.failedMonths.map(formatMonthDisplay).join('、')}
+        </div>
+      )}
+
+      {loading ? (
+        <div className={styles.loading}>加载中...</div>
+      ) : account && (
+        <div className={styles.content}>
+          {/* 排名走势 */}
+          <div ref={cardRef('rank')} className={styles.card}>
+            <div className={styles.cardTitle}>总排名走势</div>
+            {rankValues.some(value => value !== null) ? (
+              <TrendChart
+                labels={monthLabels}
+                series={[{ name: '总排名', color: RANK_COLOR, values: rankValues }]}
+                formatValue={(value) => formatMetricValue(rankMetric, value)}
+                invert
+              />
+            ) : (
+              <div className={styles.hint}>暂无排名数据</div>
+            )}
+          </div>
+
+          {/* 各指标趋势及最好/最差月份 */}
+          <div ref={cardRef('overview')} className={styles.card}>
+            <div className={styles.cardTitle}>指标概览</div>
+            <div className={styles.tableWrapper}>
+              <table className={styles.table}>
+                <thead>
+                  <tr>
+                    <th>指标</th>
+                    <th>最新</th>
+                    <th>趋势</th>
+                    <th>最好月份</th>
+                    <th>最差月份</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {account.extremes.map(extremes => {
+                    const metric = findMetric(extremes.key)!;
+                    const values = entries.map(entry => entry.data ? getMetricValue(metric, entry.data) : null);
+                    const latest = [...values].reverse().find(value => value !== null);
+                    return (
+                      <tr key={metric.key}>
+                        <td>{metric.label}</td>
+                        <td>{latest === undefined || latest === null ? '-' : formatMetricValue(metric, latest)}</td>
+                        <td>
+                          <Sparkline values={values} color={SPARKLINE_COLOR} invert={metric.isRank} />
+                        </td>
+                        <td className={styles.best}>
+                          {extremes.best
+                            ? `${formatMonthDisplay(extremes.best.month)}（${formatMetricValue(metric, extremes.best.value)}）`
+                            : '-'}
+                        </td>
+                        <td className={styles.worst}>
+                          {extremes.worst
+                            ? `${formatMonthDisplay(extremes.worst.month)}（${formatMetricValue(metric, extremes.worst.value)}）`
+                            : '-'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* 全部字段的月度数据 */}
+          <div ref={cardRef('monthly')} className={styles.card}>
+            <div className={styles.cardTitle}>月度完整数据</div>
+            <div className={styles.tableWrapper}>
+              <table className={styles.table}>
+                <thead>
+                  <tr>
+                    <th>月份</th>
+                    {fields.map(field => (
+                      <th key={field}>{field}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...entries].reverse().map(entry => (
+                    <tr key={entry.month}>
+                      <td>{formatMonthDisplay(entry.month)}</td>
+                      {entry.data ? (
+                        fields.map(field => (
+                          <td key={field}>{formatCell(entry.data![field])}</td>
+                        ))
+                      ) : (
+                        <td colSpan={fields.length} className={styles.hint}>该月没有这个账号的数据</td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showExport && account && (
+        <ExportDialog
+          defaults={{
+            title: `${account.name}数据详情`,
+            subtitle: '',
+            dateRange: entries.length > 0 ? `${monthLabels[0]} - ${monthLabels[monthLabels.length - 1]}` : '',
+          }}
+          sections={EXPORT_SECTIONS}
+          onExport={exportToImage}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+    </div>
+  );
+}
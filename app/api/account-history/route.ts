@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { loadAccountResolver } from '@/lib/accountAliases';
+import { loadAccountHistory } from '@/lib/accountHistory';
+
+// GET /api/account-history?name=新智元 - 某个账号在所有月份的完整数据
+// 名称可以是公众号名称、帐号名或别名表中的别名
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const name = searchParams.get('name');
+    if (!name) {
+      return NextResponse.json({ error: '需要提供 name 参数' }, { status: 400 });
+    }
+
+    let resolver;
+    try {
+      resolver = loadAccountResolver();
+    } catch (configError) {
+      return NextResponse.json({
+        error: configError instanceof Error ? configError.message : '读取账号别名表失败'
+      }, { status: 500 });
+    }
+
+    const result = loadAccountHistory(name, resolver);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      name: result.name,
+      accountKey: result.accountKey,
+      history: result.history,
+      // 每个指标表现最好和最差的月份
+      extremes: result.extremes,
+      failedMonths: result.failedMonths
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: '服务器错误', details: error instanceof Error ? error.message : '未知错误' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { listMonths, readMonthData } from '@/lib/dataStore';
+import { loadAccountResolver } from '@/lib/accountAliases';
+import { assignAccountKeys } from '@/lib/accountIdentity';
+import { AccountData } from '@/lib/workbookParser';
+import { previousMonthOf } from '@/lib/periods';
+
+interface AccountRef {
+  accountKey: string;
+  公众号: string;
+  帐号名: string;
+}
+
+interface MonthMatchReport {
+  month: string;
+  // 上一个自然月
+  previousMonth: string;
+  // 上一个自然月没有数据时为 true，该月不做匹配检查
+  noBaseline: boolean;
+  // 本月出现但上个月找不到对应账号
+  unmatched: AccountRef[];
+  // 上个月出现但本月找不到对应账号
+  missing: AccountRef[];
+  error?: string;
+}
+
+function toRef(account: AccountData): AccountRef {
+  return { accountKey: account.accountKey, 公众号: account.公众号, 帐号名: account.帐号名 };
+}
+
+// GET /api/account-matching - 检查相邻月份之间无法对应上的账号
+// 只与上一个自然月比较，缺少上个月的数据时标记为 noBaseline，不与更早的月份比较
+// 可通过 ?month=YYYYMM 只检查该月与上个月
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month');
+
+    let resolver;
+    try {
+      resolver = loadAccountResolver();
+    } catch (configError) {
+      return NextResponse.json({
+        error: configError instanceof Error ? configError.message : '读取账号别名表失败'
+      }, { status: 500 });
+    }
+
+    const months = listMonths();
+    if (month && !months.includes(month)) {
+      return NextResponse.json({ error: `月份不存在: ${month}` }, { status: 404 });
+    }
+    const targetMonths = month ? [month] : months;
+
+    const cache = new Map<string, AccountData[] | string>();
+    const loadAccounts = (target: string) => {
+      if (!cache.has(target)) {
+        const result = readMonthData(target);
+        cache.set(target, result.ok ? assignAccountKeys(result.sheet.accounts, resolver) : result.error);
+      }
+      return cache.get(target)!;
+    };
+
+    const reports: MonthMatchReport[] = targetMonths.map(target => {
+      const previousMonth = previousMonthOf(target);
+      const noBaseline = !months.includes(previousMonth);
+      const report: MonthMatchReport = { month: target, previousMonth, noBaseline, unmatched: [], missing: [] };
+      if (noBaseline) {
+        return report;
+      }
+
+      const current = loadAccounts(target);
+      const previous = loadAccounts(previousMonth);
+      if (typeof current === 'string' || typeof previous === 'string') {
+        report.error = typeof current === 'string' ? current : previous as string;
+        return report;
+      }
+
+      const currentKeys = new Set(current.map(account => account.accountKey));
+      const previousKeys = new Set(previous.map(account => account.accountKey));
+      report.unmatched = current.filter(account => !previousKeys.has(account.accountKey)).map(toRef);
+      report.missing = previous.filter(account => !currentKeys.has(account.accountKey)).map(toRef);
+      return report;
+    });
+
+    return NextResponse.json({ reports });
+  } catch (error) {
+    return NextResponse.json(
+      { error: '服务器错误', details: error instanceof Error ? error.message : '未知错误' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server';
+import { listMonths, readMonthData } from '@/lib/dataStore';
+import { loadAccountResolver } from '@/lib/accountAliases';
+import { assignAccountKeys, matchesAccountName } from '@/lib/accountIdentity';
+import { loadCompetitorGroups, resolveGroupSelection, CompetitorGroup } from '@/lib/competitorGroups';
+import { AnomalyType, detectAnomalies, parseThresholds } from '@/lib/anomalies';
+import { loadMonthAccounts } from '@/lib/periodData';
+import { MonthAccounts } from '@/lib/rollup';
+import { previousMonthOf, shiftMonth } from '@/lib/periods';
+
+// GET /api/anomalies - 检测某个月份中指标波动异常的账号
+// 支持 ?month=YYYYMM（默认最新月份）
+// 阈值：?percent=50（环比变化 %）、?z=2.5（前几个月的标准差倍数）、?rank=20（排名变化名次）、?trailing=6（z-score 使用的月份数）
+// 支持 ?group=分组ID 或 ?accounts=账号1,账号2 指定账号，都不提供时检测全部账号
+// 支持 ?version= 检测当月的某个历史版本；?pinned=1 时固定了版本的月份使用固定的版本，与看板显示的数据一致
+// 比较的月份按自然月计算，缺少的月份列在 missingMonths 中；缺少上一个自然月时 noBaseline 为 true，不做环比和排名检查
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const parsed = parseThresholds(searchParams);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: parsed.status });
+    }
+    const thresholds = parsed.thresholds;
+
+    let resolver;
+    let group: CompetitorGroup | null = null;
+    try {
+      resolver = loadAccountResolver();
+      if (searchParams.has('group') || searchParams.has('accounts')) {
+        const selection = resolveGroupSelection(loadCompetitorGroups(), searchParams);
+        if (!selection.ok) {
+          return NextResponse.json({ error: selection.error }, { status: selection.status });
+        }
+        group = selection.group;
+      }
+    } catch (configError) {
+      return NextResponse.json({
+        error: configError instanceof Error ? configError.message : '读取配置失败'
+      }, { status: 500 });
+    }
+
+    const allMonths = listMonths();
+    const month = searchParams.get('month') || allMonths[allMonths.length - 1] || '';
+    if (!allMonths.includes(month)) {
+      return NextResponse.json({ error: `没有 ${month} 的数据` }, { status: 404 });
+    }
+
+    const usePin = searchParams.get('pinned') === '1';
+    const version = searchParams.get('version') || undefined;
+    const currentResult = readMonthData(month, { version, usePin });
+    if (!currentResult.ok) {
+      return NextResponse.json({ error: currentResult.error }, { status: currentResult.status });
+    }
+
+    // 当月之前用于比较的自然月，只读取有数据的月份
+    const windowMonths = Array.from({ length: thresholds.trailingMonths }, (_, index) =>
+      shiftMonth(month, index - thresholds.trailingMonths)
+    );
+    const missingMonths = windowMonths.filter(item => !allMonths.includes(item));
+    const loaded = loadMonthAccounts(windowMonths.filter(item => allMonths.includes(item)), resolver, { usePin });
+    if (!loaded.ok) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status });
+    }
+
+    // 只保留指定的账号
+    const filterAccounts = ({ month, accounts }: MonthAccounts) => ({
+      month,
+      accounts: group
+        ? accounts.filter(account => group!.accounts.some(name => matchesAccountName(account, name, resolver)))
+        : accounts
+    });
+    const current = filterAccounts({ month, accounts: assignAccountKeys(currentResult.sheet.accounts, resolver) });
+    const history = loaded.data.map(filterAccounts);
+    const previousMonth = previousMonthOf(month);
+
+    const anomalies = detectAnomalies(current, history, thresholds);
+    const counts: Record<AnomalyType, number> = { percent: 0, zscore: 0, rank: 0 };
+    anomalies.forEach(anomaly => {
+      counts[anomaly.type]++;
+    });
+
+    return NextResponse.json({
+      month,
+      version: currentResult.version,
+      pinned: currentResult.pinned,
+      previousMonth,
+      noBaseline: !allMonths.includes(previousMonth),
+      comparedMonths: history.map(item => item.month),
+      missingMonths,
+      group,
+      thresholds,
+      anomalies,
+      // 各类型的异常数量及涉及的账号数
+      summary: {
+        total: anomalies.length,
+        accounts: new Set(anomalies.map(anomaly => anomaly.accountKey)).size,
+        counts
+      }
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: '服务器错误', details: error instanceof Error ? error.message : '未知错误' },
+      { status: 500 }
+    );
+  }
+}
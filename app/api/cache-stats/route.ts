@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getCacheStats } from '@/lib/dataStore';
+
+// GET /api/cache-stats - 已解析工作簿缓存的命中情况
+export async function GET() {
+  const stats = getCacheStats();
+  const requests = stats.hits + stats.misses;
+  return NextResponse.json({
+    ...stats,
+    hitRate: requests > 0 ? stats.hits / requests : null
+  });
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { loadAccountResolver } from '@/lib/accountAliases';
+import { loadPeriodData } from '@/lib/periodData';
+import { applyComputedIncrements } from '@/lib/rollup';
+
+// GET /api/compare?base=2025Q2&target=2025Q3 - 对比两个周期的数据
+// 周期可以是单月（202511）、季度（2025Q3）、半年（2025H1）或范围（202501-202503）
+// 增量由两个周期的数据计算得出，不使用 Excel 中的增量列
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const baseSpec = searchParams.get('base');
+    const targetSpec = searchParams.get('target');
+    if (!baseSpec || !targetSpec) {
+      return NextResponse.json({ error: '需要提供 base 和 target 参数' }, { status: 400 });
+    }
+
+    let resolver;
+    try {
+      resolver = loadAccountResolver();
+    } catch (configError) {
+      return NextResponse.json({
+        error: configError instanceof Error ? configError.message : '读取账号别名表失败'
+      }, { status: 500 });
+    }
+
+    const base = loadPeriodData(baseSpec, resolver);
+    if (!base.ok) {
+      return NextResponse.json({ error: `基准周期: ${base.error}` }, { status: base.status });
+    }
+    const target = loadPeriodData(targetSpec, resolver);
+    if (!target.ok) {
+      return NextResponse.json({ error: `对比周期: ${target.error}` }, { status: target.status });
+    }
+
+    const baseByKey = new Map(base.rollup.accounts.map(account => [account.accountKey, account]));
+    const data = target.rollup.accounts.map(account =>
+      applyComputedIncrements(account, baseByKey.get(account.accountKey))
+    );
+
+    return NextResponse.json({
+      base: { ...base.period, months: base.months },
+      target: { ...target.period, months: target.months },
+      data,
+      // 基准周期数据，用于计算没有增量列的字段（如转发总量）
+      previousData: base.rollup.accounts,
+      coverage: target.rollup.coverage
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: '服务器错误', details: error instanceof Error ? error.message : '未知错误' },
+      { status: 500 }
+    );
+  }
+}
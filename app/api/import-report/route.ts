@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { listMonths, readMonthData } from '@/lib/dataStore';
+import { HeaderAlias } from '@/lib/sheetSchema';
+import { SourceConflict, SourceSummary } from '@/lib/sourceRules';
+import { ColumnCoercion } from '@/lib/workbookParser';
+
+interface MonthImportReport {
+  month: string;
+  file: string | null;
+  files: string[];
+  sheetName: string | null;
+  // 文件夹中每个工作表是否参与合并
+  sources: SourceSummary[];
+  // 同一账号出现在多个来源时保留了哪一个
+  conflicts: SourceConflict[];
+  ok: boolean;
+  error?: string;
+  rowCount: number;
+  missing: string[];
+  missingOptional: string[];
+  unknown: string[];
+  aliased: HeaderAlias[];
+  duplicates: string[];
+  coerced: ColumnCoercion[];
+  invalidCells: number;
+}
+
+function buildMonthReport(month: string): MonthImportReport {
+  const result = readMonthData(month);
+  if (!result.ok) {
+    return {
+      month,
+      file: null,
+      files: [],
+      sheetName: null,
+      sources: [],
+      conflicts: [],
+      ok: false,
+      error: result.error,
+      rowCount: 0,
+      missing: [],
+      missingOptional: [],
+      unknown: [],
+      aliased: [],
+      duplicates: [],
+      coerced: [],
+      invalidCells: 0,
+    };
+  }
+
+  const { schema, accounts, coercions, diagnostics, sheetName } = result.sheet;
+  return {
+    month,
+    file: result.file,
+    files: result.files,
+    sheetName,
+    sources: result.sources,
+    conflicts: result.conflicts,
+    // 缺少必填列或存在无法解析的单元格时视为导入异常
+    ok: schema.missing.length === 0 && diagnostics.length === 0,
+    rowCount: accounts.length,
+    missing: schema.missing,
+    missingOptional: schema.missingOptional,
+    unknown: schema.unknown,
+    aliased: schema.aliased,
+    duplicates: schema.duplicates,
+    coerced: coercions,
+    invalidCells: diagnostics.length,
+  };
+}
+
+// GET /api/import-report - 检查每个月份文件的表头及数据转换情况
+// 可通过 ?month=YYYYMM 只检查单个月份
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month');
+    const months = month ? [month] : listMonths();
+    const reports = months.map(buildMonthReport);
+
+    return NextResponse.json({
+      reports,
+      failedMonths: reports.filter(report => !report.ok).map(report => report.month)
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: '服务器错误', details: error instanceof Error ? error.message : '未知错误' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getSnapshotStatus, ingestMonth, listMonths } from '@/lib/dataStore';
+
+// GET /api/ingest - 各月份 JSON 快照的状态（fresh / stale / missing）
+export async function GET() {
+  try {
+    const months = listMonths().map(month => {
+      const status = getSnapshotStatus(month);
+      return status.ok ? status : { month, error: status.error };
+    });
+    return NextResponse.json({ months });
+  } catch (error) {
+    return NextResponse.json(
+      { error: '服务器错误', details: error instanceof Error ? error.message : '未知错误' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/ingest - 将月份文件夹中的 Excel 转换为 JSON 快照
+// 可通过 ?month=YYYYMM 只处理单个月份，?force=true 时即使快照仍有效也重新解析
+export async function POST(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month');
+    const force = searchParams.get('force') === 'true';
+
+    if (month) {
+      const result = ingestMonth(month, force);
+      if (!result.ok) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
+      }
+      return NextResponse.json({ results: [result] });
+    }
+
+    const results = listMonths().map(item => {
+      const result = ingestMonth(item, force);
+      return result.ok ? result : { month: item, error: result.error };
+    });
+    return NextResponse.json({
+      results,
+      failedMonths: results.filter(result => 'error' in result).map(result => result.month)
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: '服务器错误', details: error instanceof Error ? error.message : '未知错误' },
+      { status: 500 }
+    );
+  }
+}
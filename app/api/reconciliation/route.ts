@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { listMonths, readMonthData } from '@/lib/dataStore';
+import { loadAccountResolver } from '@/lib/accountAliases';
+import { assignAccountKeys } from '@/lib/accountIdentity';
+import { reconcileMonth, ReconciliationResult } from '@/lib/reconciliation';
+import { AccountData } from '@/lib/workbookParser';
+import { previousMonthOf } from '@/lib/periods';
+
+interface MonthReconciliationReport extends ReconciliationResult {
+  month: string;
+  // 上一个自然月
+  previousMonth: string;
+  // 上一个自然月没有数据时为 true，该月不做核对
+  noBaseline: boolean;
+  error?: string;
+}
+
+// GET /api/reconciliation - 核对供应商增量列与相邻月份数据相减的结果
+// 只与上一个自然月核对，缺少上个月的数据时标记为 noBaseline，不与更早的月份相减
+// 可通过 ?month=YYYYMM 只核对该月与上个月
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month');
+
+    let resolver;
+    try {
+      resolver = loadAccountResolver();
+    } catch (configError) {
+      return NextResponse.json({
+        error: configError instanceof Error ? configError.message : '读取账号别名表失败'
+      }, { status: 500 });
+    }
+
+    const months = listMonths();
+    if (month && !months.includes(month)) {
+      return NextResponse.json({ error: `月份不存在: ${month}` }, { status: 404 });
+    }
+    const targetMonths = month ? [month] : months;
+
+    const cache = new Map<string, AccountData[] | string>();
+    const loadAccounts = (target: string) => {
+      if (!cache.has(target)) {
+        const result = readMonthData(target);
+        cache.set(target, result.ok ? assignAccountKeys(result.sheet.accounts, resolver) : result.error);
+      }
+      return cache.get(target)!;
+    };
+
+    const reports: MonthReconciliationReport[] = targetMonths.map(target => {
+      const previousMonth = previousMonthOf(target);
+      const report: MonthReconciliationReport = {
+        month: target,
+        previousMonth,
+        noBaseline: !months.includes(previousMonth),
+        accounts: 0,
+        checked: 0,
+        missingVendor: 0,
+        mismatches: []
+      };
+      if (report.noBaseline) {
+        return report;
+      }
+
+      const current = loadAccounts(target);
+      const previous = loadAccounts(previousMonth);
+      if (typeof current === 'string' || typeof previous === 'string') {
+        report.error = typeof current === 'string' ? current : previous as string;
+        return report;
+      }
+
+      return { ...report, ...reconcileMonth(current, previous) };
+    });
+
+    return NextResponse.json({
+      reports,
+      summary: {
+        checked: reports.reduce((total, report) => total + report.checked, 0),
+        mismatches: reports.reduce((total, report) => total + report.mismatches.length, 0),
+        // 缺少上个月数据、未核对的月份
+        noBaseline: reports.filter(report => report.noBaseline).map(report => report.month)
+      }
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: '服务器错误', details: error instanceof Error ? error.message : '未知错误' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { listMonths } from '@/lib/dataStore';
+import { loadAccountResolver } from '@/lib/accountAliases';
+import { matchesAccountName } from '@/lib/accountIdentity';
+import { loadCompetitorGroups, resolveGroupSelection, CompetitorGroup } from '@/lib/competitorGroups';
+import { filterMonthsByYear, listYears, monthsInPeriod, parsePeriod } from '@/lib/periods';
+import { loadMonthAccounts } from '@/lib/periodData';
+import { rollupMonths } from '@/lib/rollup';
+
+// 每年需要汇总的周期
+const ROLLUP_PERIODS = ['Q1', 'Q2', 'Q3', 'Q4', 'H1', 'H2'];
+
+// GET /api/rollups - 按季度（Q1-Q4）和半年（H1/H2）汇总账号数据
+// 支持 ?year=YYYY（默认最新年份）
+// 支持 ?group=分组ID 或 ?accounts=账号1,账号2 指定账号，都不提供时汇总全部账号
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    let resolver;
+    let group: CompetitorGroup | null = null;
+    try {
+      resolver = loadAccountResolver();
+      if (searchParams.has('group') || searchParams.has('accounts')) {
+        const selection = resolveGroupSelection(loadCompetitorGroups(), searchParams);
+        if (!selection.ok) {
+          return NextResponse.json({ error: selection.error }, { status: selection.status });
+        }
+        group = selection.group;
+      }
+    } catch (configError) {
+      return NextResponse.json({
+        error: configError instanceof Error ? configError.message : '读取配置失败'
+      }, { status: 500 });
+    }
+
+    const allMonths = listMonths();
+    const years = listYears(allMonths);
+    const year = searchParams.get('year') || years[years.length - 1] || '';
+    if (!years.includes(year)) {
+      return NextResponse.json({ error: `没有 ${year} 年的数据` }, { status: 404 });
+    }
+
+    const loaded = loadMonthAccounts(filterMonthsByYear(allMonths, year), resolver);
+    if (!loaded.ok) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status });
+    }
+
+    // 只保留指定的账号
+    const monthAccounts = loaded.data.map(({ month, accounts }) => ({
+      month,
+      accounts: group
+        ? accounts.filter(account => group!.accounts.some(name => matchesAccountName(account, name, resolver)))
+        : accounts
+    }));
+
+    const periods = ROLLUP_PERIODS.map(suffix => {
+      const period = parsePeriod(`${year}${suffix}`)!;
+      const periodMonths = monthsInPeriod(period, monthAccounts.map(item => item.month));
+      const rollup = rollupMonths(monthAccounts.filter(item => periodMonths.includes(item.month)));
+      const expectedMonths = period.type === 'quarter' ? 3 : 6;
+
+      return {
+        ...period,
+        months: periodMonths,
+        // 周期内的月份数据是否齐全
+        isComplete: periodMonths.length === expectedMonths,
+        data: rollup.accounts.map(account => ({
+          ...account,
+          months: rollup.coverage[account.accountKey] || []
+        }))
+      };
+    });
+
+    return NextResponse.json({ year, years, group, periods });
+  } catch (error) {
+    return NextResponse.json(
+      { error: '服务器错误', details: error instanceof Error ? error.message : '未知错误' },
+      { status: 500 }
+    );
+  }
+}
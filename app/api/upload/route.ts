@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import * as path from 'path';
+import { checkUploadedWorkbook, isMonthCode, listMonthFiles, saveMonthFile } from '@/lib/dataStore';
+
+// 上传文件大小上限
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+// GET /api/upload?month=YYYYMM - 某个月份已有的 Excel 文件，用于选择上传后替换的文件
+export async function GET(request: Request) {
+  const month = new URL(request.url).searchParams.get('month') || '';
+  if (!isMonthCode(month)) {
+    return NextResponse.json({ error: `月份格式不正确: ${month}` }, { status: 400 });
+  }
+  try {
+    return NextResponse.json({ month, files: listMonthFiles(month) });
+  } catch (error) {
+    return NextResponse.json(
+      { error: '服务器错误', details: error instanceof Error ? error.message : '未知错误' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/upload - 上传某个月份的 Excel 文件
+// 表单字段：file（Excel 文件）、month（YYYYMM）、overwrite（"true" 表示确认覆盖同名文件）、
+// replace（可选，替换该月份的某个已有文件；不指定时作为补充来源与已有文件合并）
+export async function POST(request: Request) {
+  try {
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json({ error: '请求格式不正确，需要 multipart/form-data' }, { status: 400 });
+    }
+
+    const file = formData.get('file');
+    const month = formData.get('month')?.toString() || '';
+    const overwrite = formData.get('overwrite') === 'true';
+    const replace = formData.get('replace')?.toString() || undefined;
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: '缺少上传的文件' }, { status: 400 });
+    }
+    if (file.size > MAX_UPLOAD_SIZE) {
+      return NextResponse.json({ error: '文件过大，最大支持 10MB' }, { status: 413 });
+    }
+
+    const content = Buffer.from(await file.arrayBuffer());
+
+    // 保存前先在服务端按合并规则解析一次，确保文件可以被看板读取
+    const checked = checkUploadedWorkbook(path.basename(file.name), content);
+    if (!checked.ok) {
+      return NextResponse.json({ error: checked.error, sources: checked.sources }, { status: checked.status });
+    }
+
+    const result = saveMonthFile(month, file.name, content, { overwrite, replace });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error, existingFiles: result.existingFiles },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      month: result.month,
+      file: result.file,
+      replaced: result.replaced,
+      files: result.files,
+      rowCount: checked.rowCount,
+      missingColumns: checked.missingColumns,
+      // 各工作表是否参与合并
+      sources: checked.sources
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: '服务器错误', details: error instanceof Error ? error.message : '未知错误' },
+      { status: 500 }
+    );
+  }
+}
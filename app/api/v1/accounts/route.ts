@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { listMonths, readMonthData } from '@/lib/dataStore';
+import { loadAccountResolver } from '@/lib/accountAliases';
+import { assignAccountKeys } from '@/lib/accountIdentity';
+import {
+  API_ERROR_STATUS,
+  API_VERSION,
+  ApiError,
+  errorBody,
+  parseAccountQuery,
+  queryAccounts,
+  toApiError
+} from '@/lib/publicApi';
+
+function fail(error: ApiError) {
+  return NextResponse.json(errorBody(error), { status: API_ERROR_STATUS[error.code] });
+}
+
+// GET /api/v1/accounts - 某个月份的账号数据（对外只读接口）
+// 参数：month（默认最新月份）、accounts、fields、sort、limit、offset、minRank，说明见 /api/v1/schema
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const parsed = parseAccountQuery(searchParams);
+    if (!parsed.ok) {
+      return fail(parsed.error);
+    }
+    const { query } = parsed;
+
+    let resolver;
+    try {
+      resolver = loadAccountResolver();
+    } catch (configError) {
+      return fail({
+        code: 'CONFIG_ERROR',
+        message: configError instanceof Error ? configError.message : '读取配置失败'
+      });
+    }
+
+    const months = listMonths();
+    const month = query.month || months[months.length - 1];
+    if (!month || !months.includes(month)) {
+      return fail({ code: 'MONTH_NOT_FOUND', message: `没有 ${month || '任何月份'} 的数据`, details: { months } });
+    }
+
+    const result = readMonthData(month);
+    if (!result.ok) {
+      return fail(toApiError(result.status, result.error));
+    }
+
+    const page = queryAccounts(assignAccountKeys(result.sheet.accounts, resolver), query, resolver);
+    return NextResponse.json({
+      apiVersion: API_VERSION,
+      month,
+      version: result.version,
+      total: page.total,
+      limit: query.limit,
+      offset: query.offset,
+      fields: query.fields,
+      unmatchedAccounts: page.unmatchedAccounts,
+      items: page.items
+    });
+  } catch (error) {
+    return fail({ code: 'INTERNAL_ERROR', message: error instanceof Error ? error.message : '未知错误' });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { listMonths } from '@/lib/dataStore';
+import { API_ERROR_STATUS, API_VERSION, errorBody } from '@/lib/publicApi';
+
+// GET /api/v1/months - 可用月份列表（升序）及最新月份（对外只读接口）
+export async function GET() {
+  try {
+    const months = listMonths();
+    return NextResponse.json({ apiVersion: API_VERSION, months, latest: months[months.length - 1] || null });
+  } catch (error) {
+    return NextResponse.json(
+      errorBody({ code: 'INTERNAL_ERROR', message: error instanceof Error ? error.message : '未知错误' }),
+      { status: API_ERROR_STATUS.INTERNAL_ERROR }
+    );
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { buildApiSchema } from '@/lib/publicApi';
+
+// GET /api/v1/schema - 对外接口的参数、响应 JSON Schema、字段列表及错误码
+export async function GET() {
+  return NextResponse.json(buildApiSchema());
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { listMonthVersions, readMonthData } from '@/lib/dataStore';
+import { loadAccountResolver } from '@/lib/accountAliases';
+import { assignAccountKeys } from '@/lib/accountIdentity';
+import { diffAccounts } from '@/lib/versionHistory';
+
+// GET /api/versions/diff?month=YYYYMM&from=版本号&to=版本号 - 对比同一月份的两个版本
+// to 默认为最新版本，from 默认为 to 的上一个版本
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month');
+    if (!month) {
+      return NextResponse.json({ error: '缺少 month 参数' }, { status: 400 });
+    }
+
+    const history = listMonthVersions(month);
+    if (!history.ok) {
+      return NextResponse.json({ error: history.error }, { status: history.status });
+    }
+
+    const to = searchParams.get('to') || history.latest;
+    const toIndex = history.versions.findIndex(item => item.version === to);
+    const from = searchParams.get('from') || (toIndex > 0 ? history.versions[toIndex - 1].version : null);
+    if (!from) {
+      return NextResponse.json({ error: `${month} 的版本 ${to} 没有更早的版本可以对比` }, { status: 400 });
+    }
+
+    const fromData = readMonthData(month, { version: from });
+    if (!fromData.ok) {
+      return NextResponse.json({ error: fromData.error }, { status: fromData.status });
+    }
+    const toData = readMonthData(month, { version: to });
+    if (!toData.ok) {
+      return NextResponse.json({ error: toData.error }, { status: toData.status });
+    }
+
+    // 按账号别名匹配，账号在两个版本之间改名时不会被当作新增和删除
+    const resolver = loadAccountResolver();
+    const diff = diffAccounts(
+      assignAccountKeys(fromData.sheet.accounts, resolver),
+      assignAccountKeys(toData.sheet.accounts, resolver)
+    );
+
+    return NextResponse.json({
+      month,
+      from: history.versions.find(item => item.version === from) || { version: from },
+      to: history.versions.find(item => item.version === to) || { version: to },
+      ...diff
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: '服务器错误', details: error instanceof Error ? error.message : '未知错误' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { listMonthVersions, pinMonthVersion, rollbackMonth } from '@/lib/dataStore';
+
+// GET /api/versions?month=YYYYMM - 某个月份的历史版本、最新版本及固定的版本
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month');
+    if (!month) {
+      return NextResponse.json({ error: '缺少 month 参数' }, { status: 400 });
+    }
+
+    const result = listMonthVersions(month);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    const { ok, ...versions } = result;
+    return NextResponse.json(versions);
+  } catch (error) {
+    return NextResponse.json(
+      { error: '服务器错误', details: error instanceof Error ? error.message : '未知错误' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/versions - 固定、取消固定或回滚某个月份的版本
+// 请求体：{ "month": "YYYYMM", "action": "pin" | "unpin" | "rollback", "version": "版本号" }
+export async function POST(request: Request) {
+  try {
+    let body: { month?: unknown; action?: unknown; version?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: '请求格式不正确，需要 JSON' }, { status: 400 });
+    }
+
+    const month = typeof body.month === 'string' ? body.month : '';
+    const version = typeof body.version === 'string' ? body.version : '';
+    if (!month) {
+      return NextResponse.json({ error: '缺少 month 参数' }, { status: 400 });
+    }
+    if (body.action !== 'unpin' && !version) {
+      return NextResponse.json({ error: '缺少 version 参数' }, { status: 400 });
+    }
+
+    let result;
+    switch (body.action) {
+      case 'pin':
+        result = pinMonthVersion(month, version);
+        break;
+      case 'unpin':
+        result = pinMonthVersion(month, null);
+        break;
+      case 'rollback':
+        result = rollbackMonth(month, version);
+        break;
+      default:
+        return NextResponse.json({ error: 'action 只能是 pin、unpin 或 rollback' }, { status: 400 });
+    }
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ month: result.month, action: body.action, version: result.version });
+  } catch (error) {
+    return NextResponse.json(
+      { error: '服务器错误', details: error instanceof Error ? error.message : '未知错误' },
+      { status: 500 }
+    );
+  }
+}
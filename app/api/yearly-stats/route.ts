@@ -1,158 +1,197 @@
 import { NextResponse } from 'next/server';
 import * as fs from 'fs';
-import * as path from 'path';
-import * as XLSX from 'xlsx';
-
-const DATA_DIR = path.resolve(process.cwd(), 'data');
-
-// 需要统计的三家账号
-const TARGET_ACCOUNTS = ['新智元', '机器之心', '量子位'];
-
-/**
- * 解析数字，支持带"w"（万）和"+"的单位
- */
-function parseNumber(value: string | number): number {
-  if (typeof value === 'number') {
-    return value;
-  }
-  
-  if (typeof value !== 'string') {
-    return 0;
-  }
-
-  const cleaned = value.toString().trim().replace(/\+/g, '');
-  
-  if (cleaned.toLowerCase().includes('w')) {
-    const numPart = cleaned.replace(/[wW]/g, '').replace('+', '');
-    const num = parseFloat(numPart);
-    return isNaN(num) ? 0 : num * 10000;
-  }
-  
-  const num = parseFloat(cleaned);
-  return isNaN(num) ? 0 : num;
-}
+import { DATA_DIR, isMonthCode, listMonths, readMonthData } from '@/lib/dataStore';
+import { loadCompetitorGroups, resolveGroupSelection } from '@/lib/competitorGroups';
+import { loadAccountResolver } from '@/lib/accountAliases';
+import { AccountResolver, assignAccountKeys, matchesAccountName } from '@/lib/accountIdentity';
+import { filterMonthsByYear, getMonthNumber, getYearOfMonth, listYears, previousMonthOf } from '@/lib/periods';
+import { computeShares, SHARE_FIELDS, shareChange, ShareValues } from '@/lib/marketShare';
 
+// 指标缺失（该月文件没有对应列或单元格为空）时为 null
 interface MonthlyData {
   month: string;
-  阅读总数: number;
-  头条文章阅读量: number;
-  转发总量: number;
+  阅读总数: number | null;
+  头条文章阅读量: number | null;
+  转发总量: number | null;
+  // 当月占分组合计的份额及与上月相比的变化
+  share?: ShareValues;
+  shareChange?: ShareValues;
+}
+
+// 各月份都缺少某项指标时该项为 null
+interface YearlyTotals {
+  阅读总数: number | null;
+  头条文章阅读量: number | null;
+  转发总量: number | null;
 }
 
 interface AccountYearlyStats {
   accountName: string;
   monthlyData: MonthlyData[];
-  total: {
-    阅读总数: number;
-    头条文章阅读量: number;
-    转发总量: number;
-  };
+  // 所选年份全部已有月份的合计
+  total: YearlyTotals;
+  // 年初至 throughMonth（含）的合计
+  ytd: YearlyTotals;
+  // 全年合计、年初至今合计占分组合计的份额
+  totalShare: ShareValues;
+  ytdShare: ShareValues;
+  // 年初至今份额与上一年同期相比的变化
+  ytdShareChange: ShareValues;
 }
 
-export async function GET() {
+function emptyTotals(): YearlyTotals {
+  return { 阅读总数: null, 头条文章阅读量: null, 转发总量: null };
+}
+
+// 缺失的指标不计入合计
+function addToTotals(totals: YearlyTotals, data: MonthlyData) {
+  SHARE_FIELDS.forEach(field => {
+    const value = data[field];
+    if (value !== null) {
+      totals[field] = (totals[field] ?? 0) + value;
+    }
+  });
+}
+
+function sumMonthlyData(monthlyData: MonthlyData[]): YearlyTotals | null {
+  if (monthlyData.length === 0) {
+    return null;
+  }
+  const totals = emptyTotals();
+  monthlyData.forEach(data => addToTotals(totals, data));
+  return totals;
+}
+
+/**
+ * 读取各月份中目标账号的数据（按别名表匹配，改名或名称格式不同的账号也能对应上）
+ * 返回值与 targetAccounts 一一对应，读取失败的月份会被跳过
+ */
+function collectMonthlyData(months: string[], targetAccounts: string[], resolver: AccountResolver): MonthlyData[][] {
+  const collected: MonthlyData[][] = targetAccounts.map(() => []);
+
+  for (const month of months) {
+    const result = readMonthData(month);
+    if (!result.ok) {
+      console.error(`读取 ${month} 数据失败:`, result.error);
+      continue;
+    }
+
+    for (const account of assignAccountKeys(result.sheet.accounts, resolver)) {
+      const index = targetAccounts.findIndex(name => matchesAccountName(account, name, resolver));
+      if (index < 0 || collected[index].some(item => item.month === month)) continue;
+
+      collected[index].push({
+        month,
+        阅读总数: account.阅读总数 ?? null,
+        头条文章阅读量: account.头条文章阅读量 ?? null,
+        转发总量: account.转发总量 ?? null,
+      });
+    }
+  }
+
+  return collected;
+}
+
+// GET /api/yearly-stats - 竞品账号全年统计
+// 支持 ?group=分组ID 或 ?accounts=账号1,账号2 指定对比的账号
+// 支持 ?year=YYYY 指定年份（默认最新年份），?through=YYYYMM 指定年初至今的截止月份
+export async function GET(request: Request) {
   try {
     // 获取所有月份文件夹
     if (!fs.existsSync(DATA_DIR)) {
       return NextResponse.json({ error: '数据目录不存在' }, { status: 404 });
     }
 
-    const months = fs.readdirSync(DATA_DIR)
-      .filter(item => {
-        try {
-          const itemPath = path.join(DATA_DIR, item);
-          if (!fs.statSync(itemPath).isDirectory() || !/^\d{6}$/.test(item)) {
-            return false;
-          }
-          const files = fs.readdirSync(itemPath);
-          return files.some(file => file.endsWith('.xlsx') || file.endsWith('.xls'));
-        } catch {
-          return false;
-        }
-      })
-      .sort();
-
-    // 初始化三家账号的统计数据
-    const statsMap: Map<string, AccountYearlyStats> = new Map();
-    TARGET_ACCOUNTS.forEach(name => {
-      statsMap.set(name, {
-        accountName: name,
-        monthlyData: [],
-        total: {
-          阅读总数: 0,
-          头条文章阅读量: 0,
-          转发总量: 0,
+    let groupConfig;
+    let resolver;
+    try {
+      groupConfig = loadCompetitorGroups();
+      resolver = loadAccountResolver();
+    } catch (configError) {
+      return NextResponse.json({
+        error: configError instanceof Error ? configError.message : '读取配置失败'
+      }, { status: 500 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const selection = resolveGroupSelection(groupConfig, searchParams);
+    if (!selection.ok) {
+      return NextResponse.json({ error: selection.error }, { status: selection.status });
+    }
+    const targetAccounts = selection.group.accounts;
+
+    const allMonths = listMonths();
+    const years = listYears(allMonths);
+    const year = searchParams.get('year') || years[years.length - 1] || '';
+    if (years.length > 0 && !years.includes(year)) {
+      return NextResponse.json({ error: `没有 ${year} 年的数据` }, { status: 404 });
+    }
+
+    const months = filterMonthsByYear(allMonths, year);
+    const through = searchParams.get('through');
+    if (through && !isMonthCode(through)) {
+      return NextResponse.json({ error: `截止月份格式不正确: ${through}` }, { status: 400 });
+    }
+    if (through && getYearOfMonth(through) !== year) {
+      return NextResponse.json({ error: `截止月份 ${through} 不在 ${year} 年内` }, { status: 400 });
+    }
+    const throughMonth = through || months[months.length - 1] || null;
+
+    // 多读取第一个月的上一个月（如有），用于计算第一个月的份额变化
+    const previousMonth = months.length > 0 ? previousMonthOf(months[0]) : null;
+    const loadMonths = previousMonth && allMonths.includes(previousMonth) ? [previousMonth, ...months] : months;
+    const collected = collectMonthlyData(loadMonths, targetAccounts, resolver);
+
+    // 逐月计算各账号占分组合计的份额
+    let previousShares: ShareValues[] | null = null;
+    loadMonths.forEach(month => {
+      const monthEntries = collected.map(monthlyData => monthlyData.find(item => item.month === month) || null);
+      const shares = computeShares(monthEntries);
+      monthEntries.forEach((entry, index) => {
+        if (entry) {
+          entry.share = shares[index];
+          entry.shareChange = shareChange(shares[index], previousShares?.[index]);
         }
       });
+      previousShares = shares;
     });
 
-    // 遍历每个月份读取数据
-    for (const month of months) {
-      const monthDir = path.resolve(DATA_DIR, month);
-      const files = fs.readdirSync(monthDir);
-      const excelFile = files.find(file => file.endsWith('.xlsx') || file.endsWith('.xls'));
-      
-      if (!excelFile) continue;
-
-      const filePath = path.resolve(monthDir, excelFile);
-      
-      try {
-        const fileBuffer = fs.readFileSync(filePath);
-        const workbook = XLSX.read(fileBuffer, { type: 'buffer' });
-        
-        if (!workbook.SheetNames || workbook.SheetNames.length === 0) continue;
-        
-        const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { 
-          header: 1,
-          defval: ''
-        }) as any[][];
-        
-        if (jsonData.length < 2) continue;
-        
-        const headers = jsonData[0] as string[];
-        const dataRows = jsonData.slice(1);
-        
-        // 找到需要的列索引
-        const accountNameIdx = headers.findIndex(h => h === '公众号' || h === '帐号名');
-        const readTotalIdx = headers.findIndex(h => h === '阅读总数');
-        const headlineReadIdx = headers.findIndex(h => h === '头条文章阅读量');
-        const forwardTotalIdx = headers.findIndex(h => h === '转发总量');
-        
-        // 遍历数据行，查找三家账号
-        for (const row of dataRows) {
-          if (!row || !row[accountNameIdx]) continue;
-          
-          const accountName = row[accountNameIdx]?.toString().trim();
-          
-          if (TARGET_ACCOUNTS.includes(accountName)) {
-            const stats = statsMap.get(accountName);
-            if (stats) {
-              const monthData: MonthlyData = {
-                month,
-                阅读总数: readTotalIdx >= 0 ? parseNumber(row[readTotalIdx]) : 0,
-                头条文章阅读量: headlineReadIdx >= 0 ? parseNumber(row[headlineReadIdx]) : 0,
-                转发总量: forwardTotalIdx >= 0 ? parseNumber(row[forwardTotalIdx]) : 0,
-              };
-              
-              stats.monthlyData.push(monthData);
-              stats.total.阅读总数 += monthData.阅读总数;
-              stats.total.头条文章阅读量 += monthData.头条文章阅读量;
-              stats.total.转发总量 += monthData.转发总量;
-            }
-          }
-        }
-      } catch (error) {
-        console.error(`读取 ${month} 数据失败:`, error);
-        continue;
-      }
-    }
+    // 上一年同期（相同的月份，截止到同一个月）的份额，用于计算年初至今份额变化
+    const ytdMonthNumbers = months.filter(month => !throughMonth || month <= throughMonth).map(getMonthNumber);
+    const previousYearMonths = filterMonthsByYear(allMonths, `${parseInt(year, 10) - 1}`)
+      .filter(month => ytdMonthNumbers.includes(getMonthNumber(month)));
+    const previousYearShares = previousYearMonths.length > 0
+      ? computeShares(collectMonthlyData(previousYearMonths, targetAccounts, resolver).map(sumMonthlyData))
+      : null;
+
+    const yearData = collected.map(monthlyData => monthlyData.filter(item => months.includes(item.month)));
+    const ytdData = yearData.map(monthlyData =>
+      monthlyData.filter(item => throughMonth !== null && item.month <= throughMonth)
+    );
+    const totalShares = computeShares(yearData.map(sumMonthlyData));
+    const ytdShares = computeShares(ytdData.map(sumMonthlyData));
+
+    const result: AccountYearlyStats[] = targetAccounts.map((name, index) => ({
+      accountName: resolver.getCanonicalName(resolver.resolveName(name)) || name,
+      monthlyData: yearData[index],
+      total: sumMonthlyData(yearData[index]) || emptyTotals(),
+      ytd: sumMonthlyData(ytdData[index]) || emptyTotals(),
+      totalShare: totalShares[index],
+      ytdShare: ytdShares[index],
+      ytdShareChange: shareChange(ytdShares[index], previousYearShares?.[index]),
+    }));
 
-    // 转换为数组返回
-    const result = TARGET_ACCOUNTS.map(name => statsMap.get(name)!);
-    
-    return NextResponse.json({ 
+    return NextResponse.json({
       data: result,
-      months: months 
+      months: months,
+      year,
+      years,
+      // 所选年份 12 个月数据是否齐全
+      isFullYear: months.length === 12,
+      throughMonth,
+      group: selection.group,
+      groups: groupConfig.groups.map(({ id, name }) => ({ id, name })),
+      defaultGroup: groupConfig.defaultGroup
     });
   } catch (error) {
     return NextResponse.json(
@@ -161,4 +200,3 @@ export async function GET() {
     );
   }
 }
-
@@ -1,8 +1,35 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { AccountData, getDisplayMetrics, getAccountKey, formatNumber } from '@/lib/excelReader';
-import html2canvas from 'html2canvas';
+import { AccountData, DisplayMetrics, getDisplayMetrics, getAccountKey } from '@/lib/excelReader';
+import {
+  BUILTIN_PRESETS,
+  DEFAULT_METRIC_KEYS,
+  formatMetricValue,
+  MetricDefinition,
+  MetricPreset,
+  METRICS,
+  resolveMetrics
+} from '@/lib/metrics';
+import { listPeriodOptions, parsePeriod, Period, previousMonthOf } from '@/lib/periods';
+import {
+  applyTableView,
+  EMPTY_VIEW_STATE,
+  parseViewState,
+  RangeFilter,
+  SortBy,
+  TableViewState,
+  writeViewState
+} from '@/lib/tableView';
+import { downloadCsv, downloadXlsx, ExportCell, ExportSheet } from '@/lib/tableExport';
+import { Anomaly, AnomalyThresholds, AnomalyType, DEFAULT_THRESHOLDS } from '@/lib/anomalies';
+import { IncrementMismatch, reconcileMonth } from '@/lib/reconciliation';
+import { applyComputedIncrements } from '@/lib/rollup';
+import { computeTopMovers } from '@/lib/topMovers';
+import { exportElements, ImageExportSettings } from '@/lib/imageExport';
+import { formatVersion, VersionSummary } from '@/lib/versionHistory';
+import TopMovers from '@/components/TopMovers';
+import ExportDialog, { ExportSection } from '@/components/ExportDialog';
 import styles from './page.module.css';
 
 // 将月份代码（如 202511）转换为显示格式（2025年11月）
@@ -42,15 +69,139 @@ function sortMonths(months: string[]): string[] {
   });
 }
 
+// 看板模式：按月环比，或任意两个周期对比
+type BoardMode = 'month' | 'compare';
+
+// 增量来源：供应商导出的增量列，或按上个月数据相减计算
+type DeltaSource = 'vendor' | 'computed';
+
+// 表格默认最大宽度及每列宽度，选择的列较多时表格随之加宽
+const TABLE_MAX_WIDTH = 680;
+const TABLE_COLUMN_WIDTH = 72;
+
+interface TableRow {
+  account: AccountData;
+  metrics: DisplayMetrics;
+}
+
+const ANOMALY_TYPE_LABELS: Record<AnomalyType, string> = {
+  percent: '环比',
+  zscore: '偏离均值',
+  rank: '排名',
+};
+
+function toNumberOrNull(value: unknown): number | null {
+  return typeof value === 'number' && isFinite(value) ? value : null;
+}
+
+// 取表格行某一列的数值，用于排序和筛选
+function getRowColumn(row: TableRow, column: string, by: SortBy): number | null {
+  const cell = row.metrics.cells[column];
+  return cell ? toNumberOrNull(cell[by]) : null;
+}
+
+// 用户保存的列预设（保存在浏览器本地）
+const PRESETS_STORAGE_KEY = 'board-column-presets';
+
+function loadCustomPresets(): MetricPreset[] {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(PRESETS_STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveCustomPresets(presets: MetricPreset[]) {
+  window.localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+}
+
+function getRowName(row: TableRow): string {
+  return `${row.account.公众号 || ''} ${row.account.帐号名 || ''}`;
+}
+
+// 对比模式默认的周期：本月对比去年同月，没有去年同月时对比上个月
+function getDefaultComparison(month: string, availableMonths: string[]): { base: string; target: string } {
+  const sameMonthLastYear = `${parseInt(month.slice(0, 4)) - 1}${month.slice(4)}`;
+  if (availableMonths.includes(sameMonthLastYear)) {
+    return { base: sameMonthLastYear, target: month };
+  }
+  const sortedMonths = sortMonths([...availableMonths]);
+  const index = sortedMonths.indexOf(month);
+  return { base: sortedMonths[index + 1] || month, target: month };
+}
+
 export default function Home() {
   const [availableMonths, setAvailableMonths] = useState<string[]>([]);
   const [selectedMonth, setSelectedMonth] = useState<string>('');
   const [currentData, setCurrentData] = useState<AccountData[]>([]);
   const [previousData, setPreviousData] = useState<AccountData[]>([]);
+  // previousData 所属的月份，只有是上一个自然月时才核对增量
+  const [previousMonth, setPreviousMonth] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>('');
-  const [exporting, setExporting] = useState(false);
-  const tableRef = useRef<HTMLDivElement>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [mode, setMode] = useState<BoardMode>('month');
+  const [baseSpec, setBaseSpec] = useState<string>('');
+  const [targetSpec, setTargetSpec] = useState<string>('');
+  const [comparisonTitle, setComparisonTitle] = useState<string>('');
+  const [viewState, setViewState] = useState<TableViewState>(EMPTY_VIEW_STATE);
+  const [deltaSource, setDeltaSource] = useState<DeltaSource>('vendor');
+  // 查看的历史版本，为空时显示最新数据（或该月份固定的版本）
+  const [requestedVersion, setRequestedVersion] = useState<string>('');
+  const [dataVersion, setDataVersion] = useState<{ version: string; pinned: boolean } | null>(null);
+  // 固定或回滚版本后递增，用于重新加载数据
+  const [reloadCount, setReloadCount] = useState(0);
+  const [showMovers, setShowMovers] = useState(true);
+  const [urlLoaded, setUrlLoaded] = useState(false);
+  const moversRef = useRef<HTMLDivElement>(null);
+  const tableRef = useRef<HTMLTableElement>(null);
+
+  // 从 URL 恢复分享的视图（月份、对比周期、排序和筛选）
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    setViewState(parseViewState(params));
+    if (params.get('mode') === 'compare' && params.get('base') && params.get('target')) {
+      setBaseSpec(params.get('base')!);
+      setTargetSpec(params.get('target')!);
+      setMode('compare');
+    }
+    const month = params.get('month');
+    if (month) {
+      setSelectedMonth(month);
+    }
+    if (params.get('deltas') === 'computed') {
+      setDeltaSource('computed');
+    }
+    if (month && params.get('version')) {
+      setRequestedVersion(params.get('version')!);
+    }
+    setUrlLoaded(true);
+  }, []);
+
+  // 视图变化时同步到 URL，不产生新的浏览记录
+  useEffect(() => {
+    if (!urlLoaded) {
+      return;
+    }
+    const params = new URLSearchParams();
+    if (mode === 'compare') {
+      params.set('mode', 'compare');
+      params.set('base', baseSpec);
+      params.set('target', targetSpec);
+    } else if (selectedMonth) {
+      params.set('month', selectedMonth);
+      if (deltaSource === 'computed') {
+        params.set('deltas', 'computed');
+      }
+      if (requestedVersion) {
+        params.set('version', requestedVersion);
+      }
+    }
+    writeViewState(viewState, params);
+    const query = params.toString();
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+  }, [urlLoaded, mode, baseSpec, targetSpec, selectedMonth, deltaSource, requestedVersion, viewState]);
 
   // 加载可用的月份列表
   useEffect(() => {
@@ -66,9 +217,9 @@ export default function Home() {
         if (result.months) {
           const sortedMonths = sortMonths(result.months);
           setAvailableMonths(sortedMonths);
-          // 自动选择最新的月份
-          if (sortedMonths.length > 0 && !selectedMonth) {
-            setSelectedMonth(sortedMonths[0]);
+          // 自动选择最新的月份（URL 中指定的月份不存在时也选择最新月份）
+          if (sortedMonths.length > 0) {
+            setSelectedMonth(current => sortedMonths.includes(current) ? current : sortedMonths[0]);
           }
         } else {
           setAvailableMonths([]);
@@ -83,9 +234,59 @@ export default function Home() {
     loadMonths();
   }, []);
 
+  // 加载两个周期的对比数据，增量由服务端根据两个周期计算
+  const loadComparison = async () => {
+    const base = parsePeriod(baseSpec);
+    const target = parsePeriod(targetSpec);
+    if (!base || !target) {
+      setCurrentData([]);
+      setPreviousData([]);
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(
+        `/api/compare?base=${encodeURIComponent(base.spec)}&target=${encodeURIComponent(target.spec)}`
+      );
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || result.error) {
+        setError(`加载对比数据失败: ${result.error || `HTTP ${response.status}`}`);
+        setCurrentData([]);
+        setPreviousData([]);
+        return;
+      }
+      setCurrentData(result.data || []);
+      setPreviousData(result.previousData || []);
+      setComparisonTitle(`${result.target.label} 对比 ${result.base.label}`);
+    } catch (error) {
+      setError(`加载对比数据失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      setCurrentData([]);
+      setPreviousData([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 切换到对比模式时，以当前月份生成默认的对比周期
+  const changeMode = (nextMode: BoardMode) => {
+    if (nextMode === 'compare' && selectedMonth && (!baseSpec || !targetSpec)) {
+      const { base, target } = getDefaultComparison(selectedMonth, availableMonths);
+      setBaseSpec(base);
+      setTargetSpec(target);
+    }
+    setMode(nextMode);
+  };
+
   // 加载选中月份的数据
   useEffect(() => {
     const loadData = async () => {
+      if (mode === 'compare') {
+        await loadComparison();
+        return;
+      }
+
       if (!selectedMonth || !availableMonths.includes(selectedMonth)) {
         setCurrentData([]);
         setPreviousData([]);
@@ -95,10 +296,12 @@ export default function Home() {
 
       setLoading(true);
       setError('');
+      setPreviousMonth('');
       
       try {
-        // 1. 加载当前月份数据
-        const currentResponse = await fetch(`/api/data?month=${selectedMonth}`);
+        // 1. 加载当前月份数据（指定版本时加载该历史版本）
+        const versionQuery = requestedVersion ? `&version=${encodeURIComponent(requestedVersion)}` : '';
+        const currentResponse = await fetch(`/api/data?month=${selectedMonth}${versionQuery}`);
         
         // 检查响应状态
         if (!currentResponse.ok) {
@@ -106,6 +309,7 @@ export default function Home() {
           const errorMsg = errorData.error || `HTTP ${currentResponse.status}`;
           setError(`加载${formatMonthDisplay(selectedMonth)}数据失败: ${errorMsg}`);
           setCurrentData([]);
+          setDataVersion(null);
           return;
         }
         
@@ -117,8 +321,12 @@ export default function Home() {
         } else {
           const currentMonthData = currentResult.data || [];
           setCurrentData(currentMonthData);
+          setDataVersion(currentResult.version ? { version: currentResult.version, pinned: !!currentResult.pinned } : null);
           if (currentMonthData.length === 0) {
             setError(`${formatMonthDisplay(selectedMonth)}暂无数据`);
+          } else if (currentResult.missingColumns?.length > 0) {
+            // 缺少必填列时对应数据会显示为 -，需要提示检查导出文件
+            setError(`${formatMonthDisplay(selectedMonth)}数据缺少列: ${currentResult.missingColumns.join('、')}`);
           } else {
             // 清除之前的错误
             setError('');
@@ -140,6 +348,7 @@ export default function Home() {
               const previousResult = await previousResponse.json();
               if (!previousResult.error && previousResult.data && previousResult.data.length > 0) {
                 setPreviousData(previousResult.data);
+                setPreviousMonth(previousMonth);
               } else {
                 setPreviousData([]);
               }
@@ -165,7 +374,7 @@ export default function Home() {
     };
 
     loadData();
-  }, [selectedMonth, availableMonths]);
+  }, [selectedMonth, availableMonths, mode, baseSpec, targetSpec, requestedVersion, reloadCount]);
 
   // 根据账号名称查找上一个月的数据
   const findPreviousAccountData = (account: AccountData): AccountData | undefined => {
@@ -173,73 +382,112 @@ export default function Home() {
     return previousData.find(prev => getAccountKey(prev) === key);
   };
 
-  // 导出图片功能
-  const exportToImage = async () => {
-    if (!tableRef.current || !selectedMonth || currentData.length === 0) {
+  // 按当前排序、筛选和搜索条件得到表格行
+  // 所有指标都参与计算，未显示的列也可以用于排序和筛选
+  const visibleMetrics = resolveMetrics(viewState.columns);
+  // 上一个自然月有数据时才能核对或计算增量，中间缺月时不与更早的月份相减
+  const hasBaseline = mode === 'month' && !!selectedMonth && previousMonth === previousMonthOf(selectedMonth);
+  // 选择按上月计算时，用相邻两个月的数据相减替换供应商的增量列
+  const useComputedDeltas = hasBaseline && deltaSource === 'computed';
+  const displayAccounts = useComputedDeltas
+    ? currentData.map(account => applyComputedIncrements(account, findPreviousAccountData(account)))
+    : currentData;
+  const tableRows = applyTableView(
+    displayAccounts.map(account => ({
+      account,
+      metrics: getDisplayMetrics(account, findPreviousAccountData(account), METRICS)
+    })),
+    viewState,
+    getRowName,
+    getRowColumn
+  );
+
+  const tableMaxWidth = Math.max(TABLE_MAX_WIDTH, (visibleMetrics.length + 1) * TABLE_COLUMN_WIDTH);
+
+  // 榜单摘要与表格使用同一份数据，不受搜索和筛选影响
+  const topMovers = mode === 'month' && displayAccounts.length > 0
+    ? computeTopMovers(displayAccounts, previousData)
+    : null;
+
+  // 供应商增量与按上月数据计算的结果不一致的单元格
+  const mismatches = hasBaseline ? reconcileMonth(currentData, previousData).mismatches : [];
+  const findMismatch = (account: AccountData, metric: MetricDefinition) => metric.incrementField
+    ? mismatches.find(item => item.accountKey === account.accountKey && item.incrementField === metric.incrementField)
+    : undefined;
+
+  const toggleSort = (column: string, by: SortBy, isRank = false) => {
+    setViewState(state => {
+      // 排名默认按升序（名次靠前的在前），其他指标默认降序
+      const firstDirection = isRank && by === 'value' ? 'asc' : 'desc';
+      const current = state.sort;
+      if (!current || current.column !== column || current.by !== by) {
+        return { ...state, sort: { column, by, direction: firstDirection } };
+      }
+      if (current.direction === firstDirection) {
+        return { ...state, sort: { ...current, direction: firstDirection === 'asc' ? 'desc' : 'asc' } };
+      }
+      // 第三次点击取消排序
+      return { ...state, sort: null };
+    });
+  };
+
+  const exportTitle = mode === 'compare'
+    ? `${comparisonTitle}竞家数据统计看板`
+    : `${formatMonthDisplay(selectedMonth)}竞家数据统计看板`;
+
+  // 导出表格数据：按当前排序、筛选和显示列，数值和增量分列，写入原始数字
+  const exportTable = (format: 'xlsx' | 'csv') => {
+    if (tableRows.length === 0) {
       return;
     }
 
-    setExporting(true);
+    const numberOrNull = (value: unknown): ExportCell => typeof value === 'number' ? value : null;
+    const sheet: ExportSheet = {
+      name: mode === 'compare' ? comparisonTitle : formatMonthDisplay(selectedMonth),
+      columns: [
+        { header: '账号名称' },
+        ...visibleMetrics.flatMap(metric => {
+          const numberFormat = metric.format === 'percent' ? '0.00%' : undefined;
+          return [
+            { header: metric.key, numberFormat },
+            { header: `${metric.key}增量`, numberFormat },
+          ];
+        }),
+      ],
+      rows: tableRows.map(({ account, metrics }) => [
+        account.公众号 || account.帐号名 || '',
+        ...visibleMetrics.flatMap(metric => [
+          numberOrNull(metrics.cells[metric.key].value),
+          numberOrNull(metrics.cells[metric.key].increment),
+        ]),
+      ]),
+    };
+
     try {
-      // 创建标题
-      const title = `${formatMonthDisplay(selectedMonth)}竞家数据统计看板`;
-      
-      // 使用 html2canvas 捕获表格
-      const canvas = await html2canvas(tableRef.current, {
-        background: '#ffffff',
-        scale: 2, // 提高图片质量
-        logging: false,
-        useCORS: true,
-      } as any);
-
-      // 创建新的 canvas 来添加标题
-      const finalCanvas = document.createElement('canvas');
-      const ctx = finalCanvas.getContext('2d');
-      if (!ctx) {
-        throw new Error('无法创建画布上下文');
+      if (format === 'xlsx') {
+        downloadXlsx([sheet], exportTitle);
+      } else {
+        downloadCsv(sheet, exportTitle);
       }
-
-      // 设置标题样式
-      const titleHeight = 60;
-      const padding = 20;
-      finalCanvas.width = canvas.width + padding * 2;
-      finalCanvas.height = canvas.height + titleHeight + padding * 2;
-
-      // 填充白色背景
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0, 0, finalCanvas.width, finalCanvas.height);
-
-      // 绘制标题
-      ctx.fillStyle = '#1a1a1a';
-      ctx.font = 'bold 24px -apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Oxygen", "Ubuntu", "Cantarell", "Fira Sans", "Droid Sans", "Helvetica Neue", sans-serif';
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      ctx.fillText(title, finalCanvas.width / 2, titleHeight / 2);
-
-      // 绘制表格
-      ctx.drawImage(canvas, padding, titleHeight + padding);
-
-      // 转换为图片并下载
-      finalCanvas.toBlob((blob) => {
-        if (!blob) {
-          throw new Error('无法创建图片');
-        }
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `${title}.png`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-      }, 'image/png');
     } catch (error) {
-      setError(`导出图片失败: ${error instanceof Error ? error.message : '未知错误'}`);
-    } finally {
-      setExporting(false);
+      setError(`导出失败: ${error instanceof Error ? error.message : '未知错误'}`);
     }
   };
 
+  // 可单独导出的区域：榜单摘要和数据表格
+  const exportSections: ExportSection[] = [
+    ...(topMovers && showMovers ? [{ id: 'movers', label: '榜单摘要' }] : []),
+    { id: 'table', label: '数据表格' },
+  ];
+
+  // 导出图片或 PDF
+  const exportToImage = async (settings: ImageExportSettings, sectionIds: string[]) => {
+    const elements = sectionIds
+      .map((id): HTMLElement | null => id === 'movers' ? moversRef.current : tableRef.current)
+      .filter((element): element is HTMLElement => element !== null);
+    await exportElements(elements, settings, settings.title);
+  };
+
   return (
     <div className={styles.container}>
       {/* 顶部工具栏 */}
@@ -247,13 +495,27 @@ export default function Home() {
         <div className={styles.titleSection}>
         <div className={styles.title}>竞家数据统计看板</div>
           <a href="/thressvs" className={styles.yearlyLink}>全年统计 →</a>
+          <a href="/upload" className={styles.uploadButton}>上传数据</a>
         </div>
         <div className={styles.controls}>
           {availableMonths.length > 0 && (
+            <select
+              className={styles.modeSelector}
+              value={mode}
+              onChange={(e) => changeMode(e.target.value as BoardMode)}
+            >
+              <option value="month">环比上月</option>
+              <option value="compare">周期对比</option>
+            </select>
+          )}
+          {availableMonths.length > 0 && mode === 'month' && (
             <select
               className={styles.monthSelector}
               value={selectedMonth}
-              onChange={(e) => setSelectedMonth(e.target.value)}
+              onChange={(e) => {
+                setSelectedMonth(e.target.value);
+                setRequestedVersion('');
+              }}
             >
               {availableMonths.map(month => (
                 <option key={month} value={month}>
@@ -262,15 +524,65 @@ export default function Home() {
               ))}
             </select>
           )}
+          {mode === 'month' && previousData.length > 0 && !hasBaseline && selectedMonth && (
+            <span className={styles.periodSeparator} title="供应商增量需要与上一个自然月的数据核对">
+              {formatMonthDisplay(previousMonthOf(selectedMonth))}无数据，未核对增量
+            </span>
+          )}
+          {hasBaseline && previousData.length > 0 && (
+            <select
+              className={styles.monthSelector}
+              value={deltaSource}
+              onChange={(e) => setDeltaSource(e.target.value as DeltaSource)}
+              title="供应商增量与按上月数据计算的结果不一致时，对应单元格的增量带有虚线下划线"
+            >
+              <option value="vendor">
+                供应商增量{mismatches.length > 0 ? `（${mismatches.length} 处不一致）` : ''}
+              </option>
+              <option value="computed">按上月计算增量</option>
+            </select>
+          )}
+          {availableMonths.length > 0 && mode === 'compare' && (
+            <>
+              <PeriodPicker
+                value={targetSpec}
+                months={availableMonths}
+                onChange={setTargetSpec}
+              />
+              <span className={styles.periodSeparator}>对比</span>
+              <PeriodPicker
+                value={baseSpec}
+                months={availableMonths}
+                onChange={setBaseSpec}
+              />
+            </>
+          )}
           {selectedMonth && currentData.length > 0 && (
             <button
               className={styles.exportButton}
-              onClick={exportToImage}
-              disabled={exporting}
+              onClick={() => setShowExport(true)}
             >
-              {exporting ? '导出中...' : '导出图片'}
+              导出图片
             </button>
           )}
+          {selectedMonth && currentData.length > 0 && (
+            <>
+              <button
+                className={styles.exportButton}
+                onClick={() => exportTable('xlsx')}
+                disabled={tableRows.length === 0}
+              >
+                导出 Excel
+              </button>
+              <button
+                className={styles.exportButton}
+                onClick={() => exportTable('csv')}
+                disabled={tableRows.length === 0}
+              >
+                导出 CSV
+              </button>
+            </>
+          )}
         </div>
       </div>
 
@@ -287,28 +599,79 @@ export default function Home() {
         </div>
       )}
 
+      {/* 搜索、筛选和列选择 */}
+      {currentData.length > 0 && (
+        <FilterBar
+          state={viewState}
+          onChange={setViewState}
+          total={currentData.length}
+          shown={tableRows.length}
+        >
+          {topMovers && (
+            <button className={styles.filterButton} onClick={() => setShowMovers(!showMovers)}>
+              {showMovers ? '隐藏榜单摘要' : '显示榜单摘要'}
+            </button>
+          )}
+          <ColumnChooser
+            columns={viewState.columns}
+            onChange={(columns) => setViewState(state => ({ ...state, columns }))}
+          />
+        </FilterBar>
+      )}
+
+      {/* 异常波动提醒 */}
+      {mode === 'month' && selectedMonth && currentData.length > 0 && (
+        <AnomalyPanel month={selectedMonth} version={dataVersion?.version || ''} />
+      )}
+
+      {/* 数据版本：查看、固定或回滚到历史版本 */}
+      {mode === 'month' && selectedMonth && dataVersion && (
+        <VersionPanel
+          month={selectedMonth}
+          current={dataVersion}
+          requestedVersion={requestedVersion}
+          reloadCount={reloadCount}
+          onSelect={setRequestedVersion}
+          onChanged={() => {
+            setRequestedVersion('');
+            setReloadCount(count => count + 1);
+          }}
+        />
+      )}
+
       {/* 数据表格 */}
       <div className={styles.tableContainer}>
-        <div ref={tableRef} className={styles.tableWrapper}>
-          <table className={styles.table}>
+        <div className={styles.tableWrapper}>
+          {/* 榜单摘要，与表格一起导出 */}
+          {topMovers && showMovers && (
+            <div ref={moversRef}>
+              <TopMovers data={topMovers} hasPrevious={previousData.length > 0} style={{ maxWidth: tableMaxWidth }} />
+            </div>
+          )}
+          <table
+            ref={tableRef}
+            className={styles.table}
+            style={{ maxWidth: tableMaxWidth }}
+          >
           <thead>
             <tr>
               <th className={styles.accountNameCell}>账号名称</th>
-              <th>发文数</th>
-              <th>总阅读数（万）</th>
-              <th>头条阅读（万）</th>
-              <th>10万+</th>
-              <th>平均阅读</th>
-              <th>总在看数</th>
-              <th>总点赞数</th>
-              <th>总转发数</th>
-              <th className={styles.rankCell}>WCI/排名</th>
+              {visibleMetrics.map(metric => (
+                <th key={metric.key} className={metric.isRank ? styles.rankCell : undefined}>
+                  <SortHeader
+                    label={metric.label}
+                    column={metric.key}
+                    state={viewState}
+                    onSort={(by) => toggleSort(metric.key, by, metric.isRank)}
+                  />
+                </th>
+              ))}
             </tr>
           </thead>
           <tbody>
             {loading ? (
               <tr>
-                <td colSpan={10} className={styles.empty}>
+                <td colSpan={visibleMetrics.length + 1} className={styles.empty}>
                   <div className={styles.loading}>
                     <div className={styles.loadingSpinner}></div>
                     <div>加载中...</div>
@@ -317,7 +680,7 @@ export default function Home() {
               </tr>
             ) : currentData.length === 0 ? (
               <tr>
-                <td colSpan={10} className={styles.empty}>
+                <td colSpan={visibleMetrics.length + 1} className={styles.empty}>
                   {availableMonths.length === 0 
                     ? '请在 data 文件夹中放置 Excel 文件' 
                     : selectedMonth 
@@ -325,81 +688,654 @@ export default function Home() {
                       : '请选择月份'}
                 </td>
               </tr>
+            ) : tableRows.length === 0 ? (
+              <tr>
+                <td colSpan={visibleMetrics.length + 1} className={styles.empty}>
+                  没有符合筛选条件的账号
+                </td>
+              </tr>
             ) : (
-              currentData.map((account, index) => {
-                const previousAccount = findPreviousAccountData(account);
-                const metrics = getDisplayMetrics(account, previousAccount);
-                
-                return (
-                  <tr key={index}>
-                    <td className={`${styles.accountName} ${styles.accountNameCell}`}>
-                      {typeof metrics.账号名称 === 'string' 
-                        ? metrics.账号名称 
-                        : (metrics.账号名称 as { error: string }).error || '-'}
-                    </td>
-                    <td>
-                      <DataCell
-                        value={metrics.发文数.value}
-                        increment={metrics.发文数.increment}
-                      />
-                    </td>
-                    <td>
-                      <DataCell
-                        value={metrics.总阅读数.value}
-                        increment={metrics.总阅读数.increment}
-                      />
-                    </td>
-                    <td>
+              tableRows.map(({ account, metrics }, index) => (
+                <tr key={`${getAccountKey(account)}-${index}`}>
+                  <td className={`${styles.accountName} ${styles.accountNameCell}`}>
+                    {typeof metrics.账号名称 === 'string' ? (
+                      <a
+                        href={`/account/${encodeURIComponent(metrics.账号名称)}`}
+                        className={styles.accountLink}
+                      >
+                        {metrics.账号名称}
+                      </a>
+                    ) : (metrics.账号名称 as { error: string }).error || '-'}
+                  </td>
+                  {visibleMetrics.map(metric => (
+                    <td key={metric.key} className={metric.isRank ? styles.rankCell : undefined}>
                       <DataCell
-                        value={metrics.头条阅读.value}
-                        increment={metrics.头条阅读.increment}
+                        value={metrics.cells[metric.key].value}
+                        increment={metrics.cells[metric.key].increment}
+                        metric={metric}
+                        mismatch={findMismatch(account, metric)}
                       />
                     </td>
-                    <td>
-                      <DataCell
-                        value={metrics['10万+'].value}
-                        increment={metrics['10万+'].increment}
-                      />
-                    </td>
-                    <td>
-                      <DataCell
-                        value={metrics.平均阅读.value}
-                        increment={metrics.平均阅读.increment}
-                      />
-                    </td>
-                    <td>
-                      <DataCell
-                        value={metrics.总在看数.value}
-                        increment={metrics.总在看数.increment}
-                      />
-                    </td>
-                    <td>
-                      <DataCell
-                        value={metrics.总点赞数.value}
-                        increment={metrics.总点赞数.increment}
-                      />
-                    </td>
-                    <td>
-                      <DataCell
-                        value={metrics.总转发数.value}
-                        increment={metrics.总转发数.increment}
-                      />
-                    </td>
-                    <td className={styles.rankCell}>
-                      <DataCell
-                        value={metrics['WCI/排名'].value}
-                        increment={metrics['WCI/排名'].increment}
-                        isRank={true}
-                      />
-                    </td>
-                  </tr>
-                );
-              })
+                  ))}
+                </tr>
+              ))
             )}
           </tbody>
         </table>
         </div>
       </div>
+
+      {showExport && (
+        <ExportDialog
+          defaults={{
+            title: exportTitle,
+            subtitle: mode === 'compare'
+              ? ''
+              : `与上月对比${dataVersion ? `（数据版本 ${dataVersion.version}）` : ''}`,
+            dateRange: mode === 'compare' ? comparisonTitle : formatMonthDisplay(selectedMonth),
+          }}
+          sections={exportSections}
+          onExport={exportToImage}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+// 可排序的表头：点击名称按数值排序，点击"Δ"按增量排序
+function SortHeader({
+  label,
+  column,
+  state,
+  onSort
+}: {
+  label: string;
+  column: string;
+  state: TableViewState;
+  onSort: (by: SortBy) => void;
+}) {
+  const sort = state.sort && state.sort.column === column ? state.sort : null;
+  const arrow = (by: SortBy) => sort && sort.by === by ? (sort.direction === 'asc' ? '↑' : '↓') : '';
+
+  return (
+    <div className={styles.sortHeader}>
+      <span
+        className={`${styles.sortLabel} ${sort?.by === 'value' ? styles.sortActive : ''}`}
+        onClick={() => onSort('value')}
+        title="按数值排序"
+      >
+        {label}{arrow('value')}
+      </span>
+      <span
+        className={`${styles.sortIncrement} ${sort?.by === 'increment' ? styles.sortActive : ''}`}
+        onClick={() => onSort('increment')}
+        title="按增量排序"
+      >
+        Δ{arrow('increment')}
+      </span>
+    </div>
+  );
+}
+
+// 搜索框和数值范围筛选
+function FilterBar({
+  state,
+  onChange,
+  total,
+  shown,
+  children
+}: {
+  state: TableViewState;
+  onChange: (state: TableViewState) => void;
+  total: number;
+  shown: number;
+  children?: React.ReactNode;
+}) {
+  const [column, setColumn] = useState(METRICS[0].key);
+  const [min, setMin] = useState('');
+  const [max, setMax] = useState('');
+
+  const addFilter = () => {
+    const filter: RangeFilter = {
+      column,
+      min: min.trim() === '' ? null : parseFloat(min),
+      max: max.trim() === '' ? null : parseFloat(max),
+    };
+    if ((filter.min === null || isNaN(filter.min)) && (filter.max === null || isNaN(filter.max))) {
+      return;
+    }
+    onChange({
+      ...state,
+      filters: [...state.filters.filter(item => item.column !== column), filter],
+    });
+    setMin('');
+    setMax('');
+  };
+
+  const removeFilter = (target: string) => {
+    onChange({ ...state, filters: state.filters.filter(item => item.column !== target) });
+  };
+
+  return (
+    <div className={styles.filterBar}>
+      <input
+        className={styles.searchInput}
+        placeholder="搜索账号名称"
+        value={state.query}
+        onChange={(e) => onChange({ ...state, query: e.target.value })}
+      />
+      <select
+        className={styles.rangeSelector}
+        value={column}
+        onChange={(e) => setColumn(e.target.value)}
+      >
+        {METRICS.map(metric => (
+          <option key={metric.key} value={metric.key}>{metric.label}</option>
+        ))}
+      </select>
+      <input
+        className={styles.rangeInput}
+        placeholder="最小值"
+        value={min}
+        onChange={(e) => setMin(e.target.value)}
+      />
+      <span className={styles.periodSeparator}>-</span>
+      <input
+        className={styles.rangeInput}
+        placeholder="最大值"
+        value={max}
+        onChange={(e) => setMax(e.target.value)}
+      />
+      <button className={styles.filterButton} onClick={addFilter}>添加筛选</button>
+      {state.filters.map(filter => (
+        <span key={filter.column} className={styles.filterChip}>
+          {filter.column}
+          {filter.min !== null ? ` ≥ ${filter.min}` : ''}
+          {filter.min !== null && filter.max !== null ? '，' : ''}
+          {filter.max !== null ? ` ≤ ${filter.max}` : ''}
+          <button onClick={() => removeFilter(filter.column)}>×</button>
+        </span>
+      ))}
+      {(state.query || state.filters.length > 0 || state.sort) && (
+        <button
+          className={styles.filterClear}
+          onClick={() => onChange({ ...EMPTY_VIEW_STATE, columns: state.columns })}
+        >
+          重置
+        </button>
+      )}
+      <span className={styles.filterCount}>显示 {shown} / {total}</span>
+      {children}
+    </div>
+  );
+}
+
+// 异常波动提醒：列出指标变化超过阈值的账号及原因，阈值可以调整
+// version 为看板当前显示的数据版本，检测结果与看板一致；比较的月份与看板一样使用固定的版本
+function AnomalyPanel({ month, version }: { month: string; version: string }) {
+  const [thresholds, setThresholds] = useState<AnomalyThresholds>(DEFAULT_THRESHOLDS);
+  const [draft, setDraft] = useState({
+    percent: String(DEFAULT_THRESHOLDS.percentChange * 100),
+    z: String(DEFAULT_THRESHOLDS.zScore),
+    rank: String(DEFAULT_THRESHOLDS.rankJump),
+  });
+  const [anomalies, setAnomalies] = useState<Anomaly[]>([]);
+  const [comparedMonths, setComparedMonths] = useState<string[]>([]);
+  // 比较窗口内没有数据的自然月，缺少上个月时不做环比和排名检查
+  const [missingMonths, setMissingMonths] = useState<string[]>([]);
+  const [noBaseline, setNoBaseline] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadAnomalies = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const params = new URLSearchParams({
+          month,
+          percent: String(thresholds.percentChange * 100),
+          z: String(thresholds.zScore),
+          rank: String(thresholds.rankJump),
+          trailing: String(thresholds.trailingMonths),
+          pinned: '1',
+        });
+        if (version) {
+          params.set('version', version);
+        }
+        const response = await fetch(`/api/anomalies?${params.toString()}`);
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          setError(`检测失败: ${result.error || `HTTP ${response.status}`}`);
+          setAnomalies([]);
+          return;
+        }
+        setAnomalies(result.anomalies || []);
+        setComparedMonths(result.comparedMonths || []);
+        setMissingMonths(result.missingMonths || []);
+        setNoBaseline(Boolean(result.noBaseline));
+      } catch (err) {
+        setError(`检测失败: ${err instanceof Error ? err.message : '网络错误'}`);
+        setAnomalies([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAnomalies();
+  }, [month, version, thresholds]);
+
+  const applyThresholds = () => {
+    const percent = parseFloat(draft.percent);
+    const z = parseFloat(draft.z);
+    const rank = parseInt(draft.rank, 10);
+    if (!(percent > 0) || !(z > 0) || !(rank > 0)) {
+      setError('阈值必须是正数');
+      return;
+    }
+    setThresholds({ ...thresholds, percentChange: percent / 100, zScore: z, rankJump: rank });
+  };
+
+  // 按账号归并，同一账号的多条原因显示在一起
+  const groups: { accountKey: string; accountName: string; items: Anomaly[] }[] = [];
+  anomalies.forEach(anomaly => {
+    const group = groups.find(item => item.accountKey === anomaly.accountKey);
+    if (group) {
+      group.items.push(anomaly);
+    } else {
+      groups.push({ accountKey: anomaly.accountKey, accountName: anomaly.accountName, items: [anomaly] });
+    }
+  });
+
+  return (
+    <div className={styles.anomalyPanel}>
+      <div className={styles.anomalyHeader}>
+        <button className={styles.anomalyToggle} onClick={() => setOpen(!open)}>
+          {open ? '▾' : '▸'} 异常提醒
+        </button>
+        <span className={styles.anomalySummary}>
+          {loading
+            ? '检测中...'
+            : error
+              ? error
+              : anomalies.length > 0
+                ? `${groups.length} 个账号，${anomalies.length} 项异常`
+                : comparedMonths.length > 0 ? '没有超过阈值的变化' : '没有可比较的历史月份'}
+          {!loading && !error && missingMonths.length > 0 && (
+            noBaseline
+              ? `（缺少上月 ${formatMonthDisplay(previousMonthOf(month))} 的数据，未做环比和排名检查）`
+              : `（缺少 ${missingMonths.map(formatMonthDisplay).join('、')} 的数据）`
+          )}
+        </span>
+      </div>
+      {open && (
+        <>
+          <div className={styles.anomalyThresholds}>
+            <label>
+              环比变化 ≥
+              <input
+                className={styles.rangeInput}
+                value={draft.percent}
+                onChange={(e) => setDraft({ ...draft, percent: e.target.value })}
+              />
+              %
+            </label>
+            <label>
+              偏离均值 ≥
+              <input
+                className={styles.rangeInput}
+                value={draft.z}
+                onChange={(e) => setDraft({ ...draft, z: e.target.value })}
+              />
+              个标准差
+            </label>
+            <label>
+              排名变化 ≥
+              <input
+                className={styles.rangeInput}
+                value={draft.rank}
+                onChange={(e) => setDraft({ ...draft, rank: e.target.value })}
+              />
+              名
+            </label>
+            <button className={styles.filterButton} onClick={applyThresholds}>应用</button>
+          </div>
+          {groups.length > 0 && (
+            <ul className={styles.anomalyList}>
+              {groups.map(group => (
+                <li key={group.accountKey}>
+                  <a href={`/account/${encodeURIComponent(group.accountName)}`} className={styles.accountLink}>
+                    {group.accountName}
+                  </a>
+                  <div className={styles.anomalyReasons}>
+                    {group.items.map(item => (
+                      <span key={`${item.metric}-${item.type}`} className={styles.anomalyReason}>
+                        <span className={styles.anomalyType}>{ANOMALY_TYPE_LABELS[item.type]}</span>
+                        {item.reason}
+                      </span>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// 数据版本：切换查看历史版本，固定看板显示的版本或回滚到某个版本
+function VersionPanel({
+  month,
+  current,
+  requestedVersion,
+  reloadCount,
+  onSelect,
+  onChanged
+}: {
+  month: string;
+  // 当前显示的数据版本
+  current: { version: string; pinned: boolean };
+  requestedVersion: string;
+  reloadCount: number;
+  onSelect: (version: string) => void;
+  // 固定、取消固定或回滚后重新加载数据
+  onChanged: () => void;
+}) {
+  const [versions, setVersions] = useState<VersionSummary[]>([]);
+  const [latest, setLatest] = useState('');
+  const [pinned, setPinned] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadVersions = async () => {
+      try {
+        const response = await fetch(`/api/versions?month=${month}`);
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          setError(`加载版本失败: ${result.error || `HTTP ${response.status}`}`);
+          return;
+        }
+        setError('');
+        setVersions(result.versions || []);
+        setLatest(result.latest || '');
+        setPinned(result.pinned || null);
+      } catch (err) {
+        setError(`加载版本失败: ${err instanceof Error ? err.message : '网络错误'}`);
+      }
+    };
+
+    loadVersions();
+  }, [month, reloadCount]);
+
+  const runAction = async (action: 'pin' | 'unpin' | 'rollback', version?: string) => {
+    if (action === 'rollback' && !window.confirm(`确认将 ${month} 的数据回滚到版本 ${version}？`)) {
+      return;
+    }
+    setBusy(true);
+    setError('');
+    try {
+      const response = await fetch('/api/versions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ month, action, version }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(`操作失败: ${result.error || `HTTP ${response.status}`}`);
+        return;
+      }
+      onChanged();
+    } catch (err) {
+      setError(`操作失败: ${err instanceof Error ? err.message : '网络错误'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const describe = (item: VersionSummary) => {
+    const tags = [
+      item.version === latest ? '最新' : '',
+      item.version === pinned ? '已固定' : '',
+      item.restoredFrom ? `回滚自 ${item.restoredFrom}` : '',
+    ].filter(Boolean);
+    return `${formatVersion(item.version)}${tags.length > 0 ? `（${tags.join('，')}）` : ''}`;
+  };
+
+  const viewing = current.version;
+  const isHistorical = viewing !== latest;
+
+  return (
+    <div className={styles.anomalyPanel}>
+      <div className={styles.anomalyHeader}>
+        <strong>数据版本</strong>
+        <select
+          className={styles.monthSelector}
+          value={requestedVersion}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={busy}
+        >
+          <option value="">{pinned ? '固定的版本' : '最新数据'}</option>
+          {[...versions].reverse().map(item => (
+            <option key={item.version} value={item.version}>{describe(item)}</option>
+          ))}
+        </select>
+        <span className={styles.anomalySummary}>
+          {error || `当前显示 ${viewing}${current.pinned ? '（已固定）' : isHistorical ? '（历史版本）' : ''}，共 ${versions.length} 个版本`}
+        </span>
+        {isHistorical && !current.pinned && (
+          <button className={styles.filterButton} onClick={() => runAction('pin', viewing)} disabled={busy}>
+            固定此版本
+          </button>
+        )}
+        {isHistorical && (
+          <button className={styles.filterButton} onClick={() => runAction('rollback', viewing)} disabled={busy}>
+            回滚到此版本
+          </button>
+        )}
+        {pinned && (
+          <button className={styles.filterButton} onClick={() => runAction('unpin')} disabled={busy}>
+            取消固定
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// 列选择：勾选要显示的指标，可使用内置预设或保存自己的预设
+function ColumnChooser({
+  columns,
+  onChange
+}: {
+  columns: string[] | null;
+  onChange: (columns: string[] | null) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [customPresets, setCustomPresets] = useState<MetricPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const selected = columns || DEFAULT_METRIC_KEYS;
+
+  useEffect(() => {
+    setCustomPresets(loadCustomPresets());
+  }, []);
+
+  // 按注册表顺序排列；与默认列相同时不写入 URL
+  const applyColumns = (keys: string[]) => {
+    const ordered = METRICS.map(metric => metric.key).filter(key => keys.includes(key));
+    const isDefault = ordered.length === DEFAULT_METRIC_KEYS.length
+      && ordered.every(key => DEFAULT_METRIC_KEYS.includes(key));
+    onChange(isDefault ? null : ordered);
+  };
+
+  const toggleColumn = (key: string) => {
+    const next = selected.includes(key)
+      ? selected.filter(item => item !== key)
+      : [...selected, key];
+    // 至少保留一列
+    if (next.length > 0) {
+      applyColumns(next);
+    }
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) {
+      return;
+    }
+    const presets = [
+      ...customPresets.filter(preset => preset.name !== name),
+      { id: `custom-${Date.now()}`, name, metrics: selected },
+    ];
+    setCustomPresets(presets);
+    saveCustomPresets(presets);
+    setPresetName('');
+  };
+
+  const deletePreset = (id: string) => {
+    const presets = customPresets.filter(preset => preset.id !== id);
+    setCustomPresets(presets);
+    saveCustomPresets(presets);
+  };
+
+  return (
+    <div className={styles.columnChooser}>
+      <button className={styles.filterButton} onClick={() => setOpen(!open)}>
+        显示列（{selected.length}）
+      </button>
+      {open && (
+        <div className={styles.columnPanel}>
+          <div className={styles.columnPresets}>
+            {BUILTIN_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                className={styles.presetButton}
+                onClick={() => applyColumns(preset.metrics)}
+              >
+                {preset.name}
+              </button>
+            ))}
+            {customPresets.map(preset => (
+              <span key={preset.id} className={styles.filterChip}>
+                <span className={styles.presetName} onClick={() => applyColumns(preset.metrics)}>
+                  {preset.name}
+                </span>
+                <button onClick={() => deletePreset(preset.id)} title="删除预设">×</button>
+              </span>
+            ))}
+          </div>
+          <div className={styles.columnOptions}>
+            {METRICS.map(metric => (
+              <label key={metric.key} className={styles.columnOption}>
+                <input
+                  type="checkbox"
+                  checked={selected.includes(metric.key)}
+                  onChange={() => toggleColumn(metric.key)}
+                />
+                {metric.label}
+              </label>
+            ))}
+          </div>
+          <div className={styles.columnPresets}>
+            <input
+              className={styles.rangeInput}
+              placeholder="预设名称"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+            />
+            <button className={styles.filterButton} onClick={savePreset}>保存为预设</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 自定义范围在下拉框中的取值
+const CUSTOM_PERIOD = 'custom';
+
+const PERIOD_GROUP_LABELS: Record<Period['type'], string> = {
+  month: '月份',
+  quarter: '季度',
+  half: '半年',
+  range: '自定义',
+};
+
+// 周期选择组件：月份、季度、半年或自定义月份范围
+function PeriodPicker({
+  value,
+  months,
+  onChange
+}: {
+  value: string;
+  months: string[];
+  onChange: (spec: string) => void;
+}) {
+  const options = listPeriodOptions(months);
+  const period = parsePeriod(value);
+  const isCustom = period?.type === 'range';
+  const ascendingMonths = [...months].sort();
+
+  const changeOption = (option: string) => {
+    if (option === CUSTOM_PERIOD) {
+      // 以当前周期的起止月份作为自定义范围的初始值
+      const start = period?.start && months.includes(period.start) ? period.start : ascendingMonths[0];
+      const end = period?.end && months.includes(period.end) ? period.end : start;
+      onChange(`${start}-${end}`);
+    } else {
+      onChange(option);
+    }
+  };
+
+  const changeRange = (start: string, end: string) => {
+    onChange(start <= end ? `${start}-${end}` : `${end}-${start}`);
+  };
+
+  return (
+    <div className={styles.periodPicker}>
+      <select
+        className={styles.monthSelector}
+        value={isCustom ? CUSTOM_PERIOD : value}
+        onChange={(e) => changeOption(e.target.value)}
+      >
+        {(['month', 'quarter', 'half'] as Period['type'][]).map(type => (
+          <optgroup key={type} label={PERIOD_GROUP_LABELS[type]}>
+            {options.filter(option => option.type === type).map(option => (
+              <option key={option.spec} value={option.spec}>
+                {option.label}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+        <option value={CUSTOM_PERIOD}>自定义范围...</option>
+      </select>
+      {isCustom && period && (
+        <>
+          <select
+            className={styles.rangeSelector}
+            value={period.start}
+            onChange={(e) => changeRange(e.target.value, period.end)}
+          >
+            {ascendingMonths.map(month => (
+              <option key={month} value={month}>{formatMonthDisplay(month)}</option>
+            ))}
+          </select>
+          <span className={styles.periodSeparator}>至</span>
+          <select
+            className={styles.rangeSelector}
+            value={period.end}
+            onChange={(e) => changeRange(period.start, e.target.value)}
+          >
+            {ascendingMonths.map(month => (
+              <option key={month} value={month}>{formatMonthDisplay(month)}</option>
+            ))}
+          </select>
+        </>
+      )}
     </div>
   );
 }
@@ -408,17 +1344,22 @@ export default function Home() {
 function DataCell({ 
   value, 
   increment, 
-  isRank = false
+  metric,
+  mismatch
 }: { 
-  value: number | { error: string }; 
+  value: number | null | { error: string }; 
   increment: number | null | { error: string };
-  isRank?: boolean;
+  metric: MetricDefinition;
+  // 供应商增量与计算结果不一致时标出
+  mismatch?: IncrementMismatch;
 }) {
+  const isRank = !!metric.isRank;
   // 处理错误情况
   const hasValueError = typeof value === 'object' && value !== null && 'error' in value;
   const hasIncrementError = typeof increment === 'object' && increment !== null && 'error' in increment;
   const incrementValue = typeof increment === 'number' ? increment : (increment === null ? null : 0);
   const valueNumber = typeof value === 'number' ? value : 0;
+  const isMissing = value === null;
 
   const isIncrease = incrementValue !== null && incrementValue > 0;
   const isDecrease = incrementValue !== null && incrementValue < 0;
@@ -430,12 +1371,7 @@ function DataCell({
   const displayDecrease = isRank ? isDecrease : isDecrease;
 
   // 格式化显示值
-  const formatValue = (val: number) => {
-    if (isRank) {
-      return val.toLocaleString('zh-CN');
-    }
-    return formatNumber(val);
-  };
+  const formatValue = (val: number) => formatMetricValue(metric, val);
 
   return (
     <div className={styles.dataCell}>
@@ -443,6 +1379,8 @@ function DataCell({
         <div className={styles.errorValue}>
           {(value as { error: string }).error}
         </div>
+      ) : isMissing ? (
+        <div className={styles.missingValue}>无数据</div>
       ) : (
         <div className={styles.valueWrapper}>
           <div className={styles.value}>
@@ -452,11 +1390,14 @@ function DataCell({
             <div className={styles.errorIncrement}>
               {(increment as { error: string }).error}
             </div>
-          ) : hasChange && incrementValue !== null ? (
+          ) : (hasChange || mismatch) && incrementValue !== null ? (
             <div
               className={`${styles.change} ${
                 displayIncrease ? styles.increase : displayDecrease ? styles.decrease : ''
-              }`}
+              } ${mismatch ? styles.incrementMismatch : ''}`}
+              title={mismatch
+                ? `供应商增量 ${formatValue(mismatch.vendor)}，按上月数据计算为 ${formatValue(mismatch.computed)}`
+                : undefined}
             >
               {incrementValue > 0 ? '+' : ''}{formatValue(incrementValue)}
             </div>
@@ -1,27 +1,89 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import TrendChart, { TrendSeries } from '@/components/TrendChart';
+import ExportDialog, { ExportSection } from '@/components/ExportDialog';
+import { exportElements, ImageExportSettings, ImageExportTheme } from '@/lib/imageExport';
+import { downloadCsv, downloadXlsx, ExportSheet, stackSheets } from '@/lib/tableExport';
 import styles from './page.module.css';
 
+// 占分组合计的份额（0-1），无数据时为 null
+interface ShareValues {
+  阅读总数: number | null;
+  头条文章阅读量: number | null;
+  转发总量: number | null;
+}
+
+// 指标缺失时为 null，显示为 -
 interface MonthlyData {
   month: string;
-  阅读总数: number;
-  头条文章阅读量: number;
-  转发总量: number;
+  阅读总数: number | null;
+  头条文章阅读量: number | null;
+  转发总量: number | null;
+  share?: ShareValues;
+  shareChange?: ShareValues;
 }
 
 interface AccountYearlyStats {
   accountName: string;
   monthlyData: MonthlyData[];
   total: {
-    阅读总数: number;
-    头条文章阅读量: number;
-    转发总量: number;
+    阅读总数: number | null;
+    头条文章阅读量: number | null;
+    转发总量: number | null;
   };
+  // 年初至截止月份（含）的合计
+  ytd: AccountYearlyStats['total'];
+  totalShare: ShareValues;
+  ytdShare: ShareValues;
+  // 年初至今份额与上一年同期相比的变化
+  ytdShareChange: ShareValues;
 }
 
+interface GroupOption {
+  id: string;
+  name: string;
+}
+
+type YearlyField = keyof AccountYearlyStats['total'];
+
+// 各对比表格对应的字段，用于导出
+const YEARLY_TABLES: { field: YearlyField; title: string }[] = [
+  { field: '阅读总数', title: '总阅读数' },
+  { field: '头条文章阅读量', title: '头条阅读' },
+  { field: '转发总量', title: '转发数' },
+];
+
+// 汇总卡片中显示的指标
+const SUMMARY_STATS: { field: YearlyField; label: string }[] = [
+  { field: '阅读总数', label: '总阅读' },
+  { field: '头条文章阅读量', label: '头条阅读' },
+  { field: '转发总量', label: '转发' },
+];
+
+// 账号配色，与 page.module.css 中的 row*/summary* 样式对应
+const ACCOUNT_COLORS = ['#f472b6', '#60a5fa', '#34d399', '#fbbf24', '#a78bfa', '#f87171'];
+const ACCOUNT_COLOR_COUNT = ACCOUNT_COLORS.length;
+
+// 导出图片的配色，背景与页面背景渐变的中间色一致
+const EXPORT_THEME: ImageExportTheme = {
+  background: '#302b63',
+  textColor: '#ffffff',
+  mutedColor: 'rgba(255, 255, 255, 0.6)',
+};
+
+// 可单独导出的卡片
+const EXPORT_SECTIONS: ExportSection[] = [
+  ...YEARLY_TABLES.map(table => ({ id: table.field, label: table.title })),
+  { id: 'share', label: '份额对比' },
+  { id: 'summary', label: '汇总对比' },
+];
+
 // 格式化数字显示
-function formatNumber(num: number): string {
+function formatNumber(num: number | null): string {
+  if (num === null) {
+    return '-';
+  }
   if (num >= 100000000) {
     return (num / 100000000).toFixed(2) + '亿';
   }
@@ -31,6 +93,44 @@ function formatNumber(num: number): string {
   return num.toLocaleString('zh-CN');
 }
 
+// 格式化份额显示
+function formatShare(share: number | null | undefined): string {
+  return share === null || share === undefined ? '-' : `${(share * 100).toFixed(1)}%`;
+}
+
+// 格式化份额变化（百分点）
+function formatShareChange(change: number | null | undefined): string {
+  if (change === null || change === undefined) {
+    return '-';
+  }
+  const points = change * 100;
+  return `${points > 0 ? '+' : ''}${points.toFixed(1)}pp`;
+}
+
+// 份额变化的颜色：上升为红色，下降为绿色
+function shareChangeClass(change: number | null | undefined): string {
+  if (change === null || change === undefined) {
+    return '';
+  }
+  return change > 0 ? styles.shareUp : change < 0 ? styles.shareDown : '';
+}
+
+// 月度单元格中的份额及与上月相比的变化
+function MonthShare({ monthData, field }: { monthData: MonthlyData; field: YearlyField }) {
+  if (!monthData.share) {
+    return null;
+  }
+  const change = monthData.shareChange?.[field] ?? null;
+  return (
+    <div className={styles.shareText}>
+      {formatShare(monthData.share[field])}
+      {change !== null && (
+        <span className={shareChangeClass(change)}> {formatShareChange(change)}</span>
+      )}
+    </div>
+  );
+}
+
 // 格式化月份显示
 function formatMonthDisplay(monthCode: string): string {
   const match = monthCode.match(/^(\d{4})(\d{2})$/);
@@ -40,22 +140,33 @@ function formatMonthDisplay(monthCode: string): string {
   return monthCode;
 }
 
-// 获取年份
-function getYear(monthCode: string): string {
-  const match = monthCode.match(/^(\d{4})/);
-  return match ? match[1] : '';
-}
 
 export default function ThreeVsPage() {
   const [data, setData] = useState<AccountYearlyStats[]>([]);
   const [months, setMonths] = useState<string[]>([]);
+  const [groups, setGroups] = useState<GroupOption[]>([]);
+  const [selectedGroup, setSelectedGroup] = useState<string>('');
+  const [years, setYears] = useState<string[]>([]);
+  const [selectedYear, setSelectedYear] = useState<string>('');
+  const [isFullYear, setIsFullYear] = useState(false);
+  // 选择的年初至今截止月份，为空时截止到最新月份
+  const [selectedThrough, setSelectedThrough] = useState<string>('');
+  const [throughMonth, setThroughMonth] = useState<string>('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
+  const [showExport, setShowExport] = useState(false);
+  const cardRefs = useRef<Record<string, HTMLDivElement | null>>({});
 
   useEffect(() => {
     const loadData = async () => {
+      setLoading(true);
       try {
-        const response = await fetch('/api/yearly-stats');
+        const params = new URLSearchParams();
+        if (selectedGroup) params.set('group', selectedGroup);
+        if (selectedYear) params.set('year', selectedYear);
+        if (selectedThrough) params.set('through', selectedThrough);
+        const query = params.toString() ? `?${params.toString()}` : '';
+        const response = await fetch(`/api/yearly-stats${query}`);
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({}));
           setError(`加载数据失败: ${errorData.error || response.statusText}`);
@@ -65,6 +176,18 @@ export default function ThreeVsPage() {
         if (result.data) {
           setData(result.data);
           setMonths(result.months || []);
+          setGroups(result.groups || []);
+          setYears(result.years || []);
+          setIsFullYear(!!result.isFullYear);
+          setThroughMonth(result.throughMonth || '');
+          // 首次加载时选中服务端返回的默认年份（最新年份）
+          if (!selectedYear && result.year) {
+            setSelectedYear(result.year);
+          }
+          // 首次加载时选中服务端返回的默认分组
+          if (!selectedGroup && result.group) {
+            setSelectedGroup(result.group.id);
+          }
         }
       } catch (err) {
         setError(`加载数据失败: ${err instanceof Error ? err.message : '网络错误'}`);
@@ -74,17 +197,98 @@ export default function ThreeVsPage() {
     };
 
     loadData();
-  }, []);
+  }, [selectedGroup, selectedYear, selectedThrough]);
 
-  // 获取年份范围
-  const yearRange = months.length > 0 
-    ? `${getYear(months[0])}年` 
+  // 获取年份范围，数据不满 12 个月时显示为年初至今
+  const yearRange = selectedYear
+    ? (isFullYear || months.length === 0
+      ? `${selectedYear}年`
+      : `${selectedYear}年 1-${formatMonthDisplay(months[months.length - 1])}`)
     : '全年';
+  const totalLabel = isFullYear ? '全年总量' : '年初至今';
+  const latestMonth = months.length > 0 ? months[months.length - 1] : null;
+  const ytdLabel = throughMonth ? `1-${formatMonthDisplay(throughMonth)}` : totalLabel;
+
+  const groupName = groups.find(group => group.id === selectedGroup)?.name || '';
+  const exportTitle = `${yearRange}${groupName}全年统计`;
+
+  // 各账号某一字段的月度趋势
+  const monthLabels = months.map(formatMonthDisplay);
+  const trendSeries = (field: YearlyField): TrendSeries[] => data.map((account, idx) => ({
+    name: account.accountName,
+    color: ACCOUNT_COLORS[idx % ACCOUNT_COLOR_COUNT],
+    values: months.map(month => {
+      const monthData = account.monthlyData.find(m => m.month === month);
+      return monthData ? monthData[field] : null;
+    }),
+  }));
+
+  // 各账号某一字段的月度份额
+  const shareSeries = (field: YearlyField): TrendSeries[] => data.map((account, idx) => ({
+    name: account.accountName,
+    color: ACCOUNT_COLORS[idx % ACCOUNT_COLOR_COUNT],
+    values: months.map(month => account.monthlyData.find(m => m.month === month)?.share?.[field] ?? null),
+  }));
+
+  const cardRef = (id: string) => (element: HTMLDivElement | null) => {
+    cardRefs.current[id] = element;
+  };
+
+  // 导出图片或 PDF：全部卡片或其中一张
+  const exportToImage = async (settings: ImageExportSettings, sectionIds: string[]) => {
+    const elements = sectionIds
+      .map(id => cardRefs.current[id])
+      .filter((element): element is HTMLDivElement => !!element);
+    await exportElements(elements, settings, settings.title, EXPORT_THEME);
+  };
+
+  // 导出当前分组和年份的表格：Excel 每个表格一个工作表，CSV 合并为一个表格
+  const exportTables = (format: 'xlsx' | 'csv') => {
+    const monthHeaders = months.map(month => ({ header: `${selectedYear}年${formatMonthDisplay(month)}` }));
+    const sheets: ExportSheet[] = YEARLY_TABLES.map(table => ({
+      name: table.title,
+      columns: [{ header: '账号' }, { header: totalLabel }, ...monthHeaders],
+      rows: data.map(account => [
+        account.accountName,
+        account.total[table.field],
+        ...months.map(month => {
+          const monthData = account.monthlyData.find(m => m.month === month);
+          return monthData ? monthData[table.field] : null;
+        }),
+      ]),
+    }));
+    // 份额表格与数值表格的列相同，CSV 中可以合并
+    const shareSheets: ExportSheet[] = YEARLY_TABLES.map(table => ({
+      name: `${table.title}份额`,
+      columns: [
+        { header: '账号' },
+        { header: totalLabel, numberFormat: '0.00%' },
+        ...monthHeaders.map(column => ({ ...column, numberFormat: '0.00%' })),
+      ],
+      rows: data.map(account => [
+        account.accountName,
+        account.totalShare[table.field],
+        ...months.map(month => account.monthlyData.find(m => m.month === month)?.share?.[table.field] ?? null),
+      ]),
+    }));
+    const fileName = exportTitle;
+
+    try {
+      if (format === 'xlsx') {
+        downloadXlsx([...sheets, ...shareSheets], fileName);
+      } else {
+        downloadCsv(stackSheets([...sheets, ...shareSheets], fileName, '指标'), fileName);
+      }
+    } catch (err) {
+      setError(`导出失败: ${err instanceof Error ? err.message : '未知错误'}`);
+    }
+  };
 
   // 找出各项最大值用于高亮
-  const maxRead = Math.max(...data.map(d => d.total.阅读总数));
-  const maxHeadline = Math.max(...data.map(d => d.total.头条文章阅读量));
-  const maxForward = Math.max(...data.map(d => d.total.转发总量));
+  const maxOf = (field: YearlyField) => Math.max(...data.map(d => d.total[field] ?? -Infinity));
+  const maxRead = maxOf('阅读总数');
+  const maxHeadline = maxOf('头条文章阅读量');
+  const maxForward = maxOf('转发总量');
 
   return (
     <div className={styles.container}>
@@ -95,7 +299,64 @@ export default function ThreeVsPage() {
           <div className={styles.divider}>/</div>
           <div className={styles.title}>全年统计</div>
         </div>
-        <div className={styles.yearBadge}>{yearRange}</div>
+        <div className={styles.controls}>
+          {groups.length > 0 && (
+            <select
+              className={styles.selector}
+              value={selectedGroup}
+              onChange={(e) => setSelectedGroup(e.target.value)}
+            >
+              {groups.map(group => (
+                <option key={group.id} value={group.id}>
+                  {group.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {years.length > 1 && (
+            <select
+              className={styles.selector}
+              value={selectedYear}
+              onChange={(e) => {
+                setSelectedYear(e.target.value);
+                setSelectedThrough('');
+              }}
+            >
+              {years.map(year => (
+                <option key={year} value={year}>
+                  {year}年
+                </option>
+              ))}
+            </select>
+          )}
+          {months.length > 1 && (
+            <select
+              className={styles.selector}
+              value={selectedThrough || throughMonth}
+              onChange={(e) => setSelectedThrough(e.target.value === latestMonth ? '' : e.target.value)}
+            >
+              {months.map(month => (
+                <option key={month} value={month}>
+                  年初至{formatMonthDisplay(month)}
+                </option>
+              ))}
+            </select>
+          )}
+          <div className={styles.yearBadge}>{yearRange}</div>
+          {!loading && data.length > 0 && (
+            <>
+              <button className={styles.exportButton} onClick={() => setShowExport(true)} disabled={showExport}>
+                导出图片
+              </button>
+              <button className={styles.exportButton} onClick={() => exportTables('xlsx')}>
+                导出 Excel
+              </button>
+              <button className={styles.exportButton} onClick={() => exportTables('csv')}>
+                导出 CSV
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       {/* 错误提示 */}
@@ -121,16 +382,19 @@ export default function ThreeVsPage() {
         ) : (
           <div className={styles.tablesGrid}>
             {/* 总阅读数对比表 */}
-            <div className={styles.tableCard}>
+            <div ref={cardRef('阅读总数')} className={styles.tableCard}>
               <div className={styles.cardHeader}>
                 <div className={styles.cardIcon}>📖</div>
                 <h3 className={styles.cardTitle}>总阅读数</h3>
               </div>
+              {months.length > 1 && (
+                <TrendChart labels={monthLabels} series={trendSeries('阅读总数')} formatValue={formatNumber} />
+              )}
               <table className={styles.table}>
                 <thead>
                   <tr>
                     <th>账号</th>
-                    <th>全年总量</th>
+                    <th>{totalLabel}</th>
                     {months.map(month => (
                       <th key={month}>{formatMonthDisplay(month)}</th>
                     ))}
@@ -138,16 +402,18 @@ export default function ThreeVsPage() {
                 </thead>
                 <tbody>
                   {data.map((account, idx) => (
-                    <tr key={account.accountName} className={styles[`row${idx}`]}>
+                    <tr key={account.accountName} className={styles[`row${idx % ACCOUNT_COLOR_COUNT}`]}>
                       <td className={styles.accountName}>{account.accountName}</td>
                       <td className={`${styles.totalCell} ${account.total.阅读总数 === maxRead ? styles.maxValue : ''}`}>
                         {formatNumber(account.total.阅读总数)}
+                        <div className={styles.shareText}>{formatShare(account.totalShare.阅读总数)}</div>
                       </td>
                       {months.map(month => {
                         const monthData = account.monthlyData.find(m => m.month === month);
                         return (
                           <td key={month}>
                             {monthData ? formatNumber(monthData.阅读总数) : '-'}
+                            {monthData && <MonthShare monthData={monthData} field="阅读总数" />}
                           </td>
                         );
                       })}
@@ -158,16 +424,19 @@ export default function ThreeVsPage() {
             </div>
 
             {/* 头条阅读对比表 */}
-            <div className={styles.tableCard}>
+            <div ref={cardRef('头条文章阅读量')} className={styles.tableCard}>
               <div className={styles.cardHeader}>
                 <div className={styles.cardIcon}>🔥</div>
                 <h3 className={styles.cardTitle}>头条阅读</h3>
               </div>
+              {months.length > 1 && (
+                <TrendChart labels={monthLabels} series={trendSeries('头条文章阅读量')} formatValue={formatNumber} />
+              )}
               <table className={styles.table}>
                 <thead>
                   <tr>
                     <th>账号</th>
-                    <th>全年总量</th>
+                    <th>{totalLabel}</th>
                     {months.map(month => (
                       <th key={month}>{formatMonthDisplay(month)}</th>
                     ))}
@@ -175,16 +444,18 @@ export default function ThreeVsPage() {
                 </thead>
                 <tbody>
                   {data.map((account, idx) => (
-                    <tr key={account.accountName} className={styles[`row${idx}`]}>
+                    <tr key={account.accountName} className={styles[`row${idx % ACCOUNT_COLOR_COUNT}`]}>
                       <td className={styles.accountName}>{account.accountName}</td>
                       <td className={`${styles.totalCell} ${account.total.头条文章阅读量 === maxHeadline ? styles.maxValue : ''}`}>
                         {formatNumber(account.total.头条文章阅读量)}
+                        <div className={styles.shareText}>{formatShare(account.totalShare.头条文章阅读量)}</div>
                       </td>
                       {months.map(month => {
                         const monthData = account.monthlyData.find(m => m.month === month);
                         return (
                           <td key={month}>
                             {monthData ? formatNumber(monthData.头条文章阅读量) : '-'}
+                            {monthData && <MonthShare monthData={monthData} field="头条文章阅读量" />}
                           </td>
                         );
                       })}
@@ -195,16 +466,19 @@ export default function ThreeVsPage() {
             </div>
 
             {/* 转发数对比表 */}
-            <div className={styles.tableCard}>
+            <div ref={cardRef('转发总量')} className={styles.tableCard}>
               <div className={styles.cardHeader}>
                 <div className={styles.cardIcon}>🔄</div>
                 <h3 className={styles.cardTitle}>转发数</h3>
               </div>
+              {months.length > 1 && (
+                <TrendChart labels={monthLabels} series={trendSeries('转发总量')} formatValue={formatNumber} />
+              )}
               <table className={styles.table}>
                 <thead>
                   <tr>
                     <th>账号</th>
-                    <th>全年总量</th>
+                    <th>{totalLabel}</th>
                     {months.map(month => (
                       <th key={month}>{formatMonthDisplay(month)}</th>
                     ))}
@@ -212,16 +486,71 @@ export default function ThreeVsPage() {
                 </thead>
                 <tbody>
                   {data.map((account, idx) => (
-                    <tr key={account.accountName} className={styles[`row${idx}`]}>
+                    <tr key={account.accountName} className={styles[`row${idx % ACCOUNT_COLOR_COUNT}`]}>
                       <td className={styles.accountName}>{account.accountName}</td>
                       <td className={`${styles.totalCell} ${account.total.转发总量 === maxForward ? styles.maxValue : ''}`}>
                         {formatNumber(account.total.转发总量)}
+                        <div className={styles.shareText}>{formatShare(account.totalShare.转发总量)}</div>
                       </td>
                       {months.map(month => {
                         const monthData = account.monthlyData.find(m => m.month === month);
                         return (
                           <td key={month}>
                             {monthData ? formatNumber(monthData.转发总量) : '-'}
+                            {monthData && <MonthShare monthData={monthData} field="转发总量" />}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* 份额对比 */}
+            <div ref={cardRef('share')} className={styles.tableCard}>
+              <div className={styles.cardHeader}>
+                <div className={styles.cardIcon}>🥧</div>
+                <h3 className={styles.cardTitle}>份额对比</h3>
+              </div>
+              {months.length > 1 && (
+                <TrendChart labels={monthLabels} series={shareSeries('阅读总数')} formatValue={formatShare} />
+              )}
+              <table className={styles.table}>
+                <thead>
+                  <tr>
+                    <th>账号</th>
+                    {YEARLY_TABLES.map(table => (
+                      <th key={table.field}>{table.title}份额（{ytdLabel}）</th>
+                    ))}
+                    {YEARLY_TABLES.map(table => (
+                      <th key={table.field}>{table.title}较上年同期</th>
+                    ))}
+                    {latestMonth && YEARLY_TABLES.map(table => (
+                      <th key={table.field}>{table.title}{formatMonthDisplay(latestMonth)}较上月</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.map((account, idx) => (
+                    <tr key={account.accountName} className={styles[`row${idx % ACCOUNT_COLOR_COUNT}`]}>
+                      <td className={styles.accountName}>{account.accountName}</td>
+                      {YEARLY_TABLES.map(table => (
+                        <td key={table.field}>{formatShare(account.ytdShare[table.field])}</td>
+                      ))}
+                      {YEARLY_TABLES.map(table => {
+                        const change = account.ytdShareChange[table.field];
+                        return (
+                          <td key={table.field} className={shareChangeClass(change)}>
+                            {formatShareChange(change)}
+                          </td>
+                        );
+                      })}
+                      {latestMonth && YEARLY_TABLES.map(table => {
+                        const change = account.monthlyData.find(m => m.month === latestMonth)?.shareChange?.[table.field];
+                        return (
+                          <td key={table.field} className={shareChangeClass(change)}>
+                            {formatShareChange(change)}
                           </td>
                         );
                       })}
@@ -232,34 +561,27 @@ export default function ThreeVsPage() {
             </div>
 
             {/* 汇总对比卡片 */}
-            <div className={styles.summaryCard}>
+            <div ref={cardRef('summary')} className={styles.summaryCard}>
               <div className={styles.cardHeader}>
                 <div className={styles.cardIcon}>📊</div>
-                <h3 className={styles.cardTitle}>全年汇总对比</h3>
+                <h3 className={styles.cardTitle}>{isFullYear ? '全年汇总对比' : '年初至今汇总对比'}</h3>
               </div>
               <div className={styles.summaryGrid}>
                 {data.map((account, idx) => (
-                  <div key={account.accountName} className={`${styles.summaryItem} ${styles[`summary${idx}`]}`}>
+                  <div key={account.accountName} className={`${styles.summaryItem} ${styles[`summary${idx % ACCOUNT_COLOR_COUNT}`]}`}>
                     <div className={styles.summaryName}>{account.accountName}</div>
                     <div className={styles.summaryStats}>
-                      <div className={styles.statItem}>
-                        <span className={styles.statLabel}>总阅读</span>
-                        <span className={`${styles.statValue} ${account.total.阅读总数 === maxRead ? styles.highlight : ''}`}>
-                          {formatNumber(account.total.阅读总数)}
-                        </span>
-                      </div>
-                      <div className={styles.statItem}>
-                        <span className={styles.statLabel}>头条阅读</span>
-                        <span className={`${styles.statValue} ${account.total.头条文章阅读量 === maxHeadline ? styles.highlight : ''}`}>
-                          {formatNumber(account.total.头条文章阅读量)}
-                        </span>
-                      </div>
-                      <div className={styles.statItem}>
-                        <span className={styles.statLabel}>转发</span>
-                        <span className={`${styles.statValue} ${account.total.转发总量 === maxForward ? styles.highlight : ''}`}>
-                          {formatNumber(account.total.转发总量)}
-                        </span>
-                      </div>
+                      {SUMMARY_STATS.map(stat => (
+                        <div key={stat.field} className={styles.statItem}>
+                          <span className={styles.statLabel}>{stat.label}</span>
+                          <span className={styles.statValues}>
+                            <span className={`${styles.statValue} ${account.total[stat.field] === maxOf(stat.field) ? styles.highlight : ''}`}>
+                              {formatNumber(account.total[stat.field])}
+                            </span>
+                            <span className={styles.statYtd}>{ytdLabel} {formatNumber(account.ytd[stat.field])}</span>
+                          </span>
+                        </div>
+                      ))}
                     </div>
                   </div>
                 ))}
@@ -268,6 +590,21 @@ export default function ThreeVsPage() {
           </div>
         )}
       </div>
+
+      {showExport && (
+        <ExportDialog
+          defaults={{
+            title: exportTitle,
+            subtitle: data.map(account => account.accountName).join('、'),
+            dateRange: months.length > 0
+              ? `${selectedYear}年${formatMonthDisplay(months[0])} - ${formatMonthDisplay(months[months.length - 1])}`
+              : yearRange,
+          }}
+          sections={EXPORT_SECTIONS}
+          onExport={exportToImage}
+          onClose={() => setShowExport(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,304 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { readExcelFile, formatNumber, ParsedSheet } from '@/lib/excelReader';
+import styles from './page.module.css';
+
+// 预览的行数
+const PREVIEW_ROWS = 20;
+
+// 预览表格显示的列
+const PREVIEW_COLUMNS = ['公众号', '帐号名', '文章总数', '阅读总数', '头条文章阅读量', '点赞总数', '转发总量', '总排名'];
+
+// 从文件名中推断月份，如"清博定制榜单-202512.xlsx"、"2025年01月01日-2025年01月31日.xlsx"
+function guessMonthFromFileName(fileName: string): string {
+  const compact = fileName.match(/(20\d{2})(0[1-9]|1[0-2])/);
+  if (compact) {
+    return `${compact[1]}${compact[2]}`;
+  }
+  const chinese = fileName.match(/(20\d{2})年(\d{1,2})月/);
+  if (chinese) {
+    return `${chinese[1]}${chinese[2].padStart(2, '0')}`;
+  }
+  return '';
+}
+
+// 将 YYYYMM 转换为 <input type="month"> 使用的 YYYY-MM
+function toInputMonth(month: string): string {
+  return month ? `${month.slice(0, 4)}-${month.slice(4, 6)}` : '';
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '-';
+  }
+  return typeof value === 'number' ? formatNumber(value) : value.toString();
+}
+
+export default function UploadPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ParsedSheet | null>(null);
+  const [month, setMonth] = useState<string>('');
+  const [existingFiles, setExistingFiles] = useState<string[]>([]);
+  // 目标月份已有的文件，以及选择替换的文件（为空时作为补充来源）
+  const [monthFiles, setMonthFiles] = useState<string[]>([]);
+  const [replaceFile, setReplaceFile] = useState<string>('');
+  const [parsing, setParsing] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [success, setSuccess] = useState<string>('');
+
+  // 选择月份后读取该月份已有的文件
+  useEffect(() => {
+    setMonthFiles([]);
+    setReplaceFile('');
+    if (!month) {
+      return;
+    }
+    fetch(`/api/upload?month=${month}`)
+      .then(response => response.ok ? response.json() : { files: [] })
+      .then(result => setMonthFiles(result.files || []))
+      .catch(() => setMonthFiles([]));
+  }, [month]);
+
+  // 选择文件后在浏览器端解析并预览
+  const selectFile = async (selected: File | null) => {
+    setFile(selected);
+    setPreview(null);
+    setExistingFiles([]);
+    setError('');
+    setSuccess('');
+    if (!selected) {
+      return;
+    }
+
+    setParsing(true);
+    try {
+      setPreview(await readExcelFile(selected));
+      setMonth(guessMonthFromFileName(selected.name));
+    } catch (err) {
+      setError(`文件解析失败: ${err instanceof Error ? err.message : '未知错误'}`);
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  // 提交上传，目标月份已有同名文件时需要再次确认覆盖
+  const upload = async (overwrite: boolean) => {
+    if (!file || !month) {
+      return;
+    }
+
+    setUploading(true);
+    setError('');
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('month', month);
+      formData.append('overwrite', overwrite ? 'true' : 'false');
+      if (replaceFile) {
+        formData.append('replace', replaceFile);
+      }
+
+      const response = await fetch('/api/upload', { method: 'POST', body: formData });
+      const result = await response.json().catch(() => ({}));
+
+      if (response.status === 409) {
+        setExistingFiles(result.existingFiles || []);
+        return;
+      }
+      if (!response.ok) {
+        setError(`上传失败: ${result.error || `HTTP ${response.status}`}`);
+        return;
+      }
+
+      setExistingFiles([]);
+      setMonthFiles(result.files || []);
+      setReplaceFile('');
+      const otherFiles: string[] = (result.files || []).filter((name: string) => name !== result.file);
+      setSuccess(
+        result.replaced?.length > 0
+          ? `已保存到 ${result.month}，替换了 ${result.replaced.join('、')}`
+          : otherFiles.length > 0
+            ? `已保存到 ${result.month}，作为补充来源与 ${otherFiles.join('、')} 合并`
+            : `已保存到 ${result.month}`
+      );
+    } catch (err) {
+      setError(`上传失败: ${err instanceof Error ? err.message : '网络错误'}`);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const schema = preview?.schema;
+  const hasIssues = !!preview && (
+    preview.schema.missing.length > 0 || preview.diagnostics.length > 0
+  );
+
+  return (
+    <div className={styles.container}>
+      {/* 顶部工具栏 */}
+      <div className={styles.toolbar}>
+        <div className={styles.titleSection}>
+          <a href="/" className={styles.backLink}>← 竞家数据统计看板</a>
+          <div className={styles.title}>上传月度数据</div>
+        </div>
+      </div>
+
+      {/* 错误提示 */}
+      {error && (
+        <div className={styles.errorAlert}>
+          <span className={styles.errorText}>⚠️ {error}</span>
+          <button
+            className={styles.errorClose}
+            onClick={() => setError('')}
+          >
+            ×
+          </button>
+        </div>
+      )}
+
+      {success && (
+        <div className={styles.successAlert}>
+          ✓ {success}，<a href="/">返回看板查看</a>
+        </div>
+      )}
+
+      <div className={styles.content}>
+        {/* 第一步：选择文件 */}
+        <div className={styles.card}>
+          <div className={styles.cardTitle}>1. 选择 Excel 文件</div>
+          <input
+            type="file"
+            accept=".xlsx,.xls"
+            onChange={(e) => selectFile(e.target.files?.[0] || null)}
+          />
+          {parsing && <div className={styles.hint}>解析中...</div>}
+        </div>
+
+        {/* 第二步：检查解析结果 */}
+        {preview && schema && (
+          <div className={styles.card}>
+            <div className={styles.cardTitle}>
+              2. 检查数据（共 {preview.accounts.length} 个账号）
+            </div>
+
+            <ul className={styles.issueList}>
+              {schema.missing.length > 0 && (
+                <li className={styles.issueError}>缺少必填列：{schema.missing.join('、')}</li>
+              )}
+              {preview.diagnostics.length > 0 && (
+                <li className={styles.issueError}>
+                  {preview.diagnostics.length} 个单元格无法解析为数字：
+                  {preview.diagnostics.slice(0, 5).map(item => `第${item.row}行「${item.column}」${String(item.value)}`).join('；')}
+                  {preview.diagnostics.length > 5 ? ' 等' : ''}
+                </li>
+              )}
+              {schema.unknown.length > 0 && (
+                <li className={styles.issueWarning}>未识别的列（将原样保留）：{schema.unknown.join('、')}</li>
+              )}
+              {schema.aliased.length > 0 && (
+                <li className={styles.issueInfo}>
+                  按别名识别的列：{schema.aliased.map(item => `${item.header} → ${item.column}`).join('、')}
+                </li>
+              )}
+              {!hasIssues && <li className={styles.issueInfo}>表头检查通过</li>}
+            </ul>
+
+            <div className={styles.previewWrapper}>
+              <table className={styles.previewTable}>
+                <thead>
+                  <tr>
+                    {PREVIEW_COLUMNS.map(column => (
+                      <th key={column}>{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.accounts.slice(0, PREVIEW_ROWS).map((account, index) => (
+                    <tr key={index}>
+                      {PREVIEW_COLUMNS.map(column => (
+                        <td key={column}>{formatCell(account[column])}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {preview.accounts.length > PREVIEW_ROWS && (
+              <div className={styles.hint}>仅预览前 {PREVIEW_ROWS} 行</div>
+            )}
+          </div>
+        )}
+
+        {/* 第三步：选择月份并确认 */}
+        {preview && (
+          <div className={styles.card}>
+            <div className={styles.cardTitle}>3. 选择月份并确认上传</div>
+            <div className={styles.confirmRow}>
+              <input
+                type="month"
+                className={styles.monthInput}
+                value={toInputMonth(month)}
+                onChange={(e) => {
+                  setMonth(e.target.value.replace('-', ''));
+                  setExistingFiles([]);
+                }}
+              />
+              <button
+                className={styles.primaryButton}
+                onClick={() => upload(false)}
+                disabled={!month || uploading}
+              >
+                {uploading ? '上传中...' : '确认上传'}
+              </button>
+            </div>
+
+            {monthFiles.length > 0 && (
+              <div className={styles.confirmRow}>
+                <span className={styles.hint}>{month} 已有文件：</span>
+                <select
+                  className={styles.monthInput}
+                  value={replaceFile}
+                  onChange={(e) => {
+                    setReplaceFile(e.target.value);
+                    setExistingFiles([]);
+                  }}
+                >
+                  <option value="">保留已有文件，作为补充来源合并</option>
+                  {monthFiles.map(name => (
+                    <option key={name} value={name}>替换 {name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {existingFiles.length > 0 && (
+              <div className={styles.overwriteConfirm}>
+                <div>
+                  {month} 已有同名文件 {file?.name}，覆盖后原文件将被替换。
+                </div>
+                <div className={styles.confirmRow}>
+                  <button
+                    className={styles.dangerButton}
+                    onClick={() => upload(true)}
+                    disabled={uploading}
+                  >
+                    确认覆盖
+                  </button>
+                  <button
+                    className={styles.secondaryButton}
+                    onClick={() => setExistingFiles([])}
+                    disabled={uploading}
+                  >
+                    取消
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { DEFAULT_EXPORT_SOURCE, ImageExportFormat, ImageExportSettings } from '@/lib/imageExport';
+import styles from './ExportDialog.module.css';
+
+/**
+ * 导出图片/PDF 的设置对话框：标题、副标题、统计周期、数据来源、水印、格式及导出范围
+ * 数据来源和水印保存在浏览器中，下次导出时沿用
+ */
+
+export interface ExportSection {
+  id: string;
+  label: string;
+}
+
+// 导出范围：全部区域
+export const ALL_SECTIONS = 'all';
+
+const PREFERENCES_KEY = 'export-preferences';
+
+interface ExportPreferences {
+  source: string;
+  watermark: string;
+  format: ImageExportFormat;
+}
+
+function loadPreferences(): Partial<ExportPreferences> {
+  try {
+    return JSON.parse(window.localStorage.getItem(PREFERENCES_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function savePreferences(preferences: ExportPreferences) {
+  window.localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+}
+
+export default function ExportDialog({
+  defaults,
+  sections = [],
+  onExport,
+  onClose
+}: {
+  defaults: Pick<ImageExportSettings, 'title' | 'subtitle' | 'dateRange'>;
+  // 有多个可导出区域时可以选择全部导出或只导出其中一个
+  sections?: ExportSection[];
+  onExport: (settings: ImageExportSettings, sectionIds: string[]) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [settings, setSettings] = useState<ImageExportSettings>({
+    ...defaults,
+    source: DEFAULT_EXPORT_SOURCE,
+    watermark: '',
+    format: 'png',
+  });
+  const [scope, setScope] = useState(ALL_SECTIONS);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setSettings(current => ({ ...current, ...loadPreferences() }));
+  }, []);
+
+  const update = (changes: Partial<ImageExportSettings>) => setSettings({ ...settings, ...changes });
+
+  const submit = async () => {
+    setExporting(true);
+    setError('');
+    try {
+      savePreferences({ source: settings.source, watermark: settings.watermark, format: settings.format });
+      const sectionIds = scope === ALL_SECTIONS ? sections.map(section => section.id) : [scope];
+      await onExport(settings, sectionIds);
+      onClose();
+    } catch (err) {
+      setError(`导出失败: ${err instanceof Error ? err.message : '未知错误'}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.dialog} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <span>导出图片 / PDF</span>
+          <button className={styles.close} onClick={onClose}>×</button>
+        </div>
+
+        <label className={styles.field}>
+          <span>标题</span>
+          <input value={settings.title} onChange={(e) => update({ title: e.target.value })} />
+        </label>
+        <label className={styles.field}>
+          <span>副标题</span>
+          <input value={settings.subtitle} placeholder="可选" onChange={(e) => update({ subtitle: e.target.value })} />
+        </label>
+        <label className={styles.field}>
+          <span>统计周期</span>
+          <input value={settings.dateRange} placeholder="可选" onChange={(e) => update({ dateRange: e.target.value })} />
+        </label>
+        <label className={styles.field}>
+          <span>数据来源</span>
+          <input value={settings.source} placeholder="可选" onChange={(e) => update({ source: e.target.value })} />
+        </label>
+        <label className={styles.field}>
+          <span>水印</span>
+          <input value={settings.watermark} placeholder="留空则不加水印" onChange={(e) => update({ watermark: e.target.value })} />
+        </label>
+
+        {sections.length > 1 && (
+          <label className={styles.field}>
+            <span>导出范围</span>
+            <select value={scope} onChange={(e) => setScope(e.target.value)}>
+              <option value={ALL_SECTIONS}>全部卡片</option>
+              {sections.map(section => (
+                <option key={section.id} value={section.id}>{section.label}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <div className={styles.field}>
+          <span>格式</span>
+          <div className={styles.formats}>
+            {(['png', 'pdf'] as ImageExportFormat[]).map(format => (
+              <label key={format}>
+                <input
+                  type="radio"
+                  checked={settings.format === format}
+                  onChange={() => update({ format })}
+                />
+                {format === 'png' ? 'PNG 图片' : 'PDF（每张卡片一页）'}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {error && <div className={styles.error}>{error}</div>}
+
+        <div className={styles.actions}>
+          <button onClick={onClose} disabled={exporting}>取消</button>
+          <button className={styles.primary} onClick={submit} disabled={exporting || !settings.title.trim()}>
+            {exporting ? '导出中...' : '导出'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { findMetric, formatMetricValue } from '@/lib/metrics';
+import { Mover, TopMovers as TopMoversData } from '@/lib/topMovers';
+import styles from './TopMovers.module.css';
+
+/**
+ * 月度榜单摘要卡片：排名升降、阅读增减、阅读增幅及新上榜/跌出榜单的账号
+ * 与看板表格放在同一个导出区域内，导出图片时一并导出
+ */
+
+interface MoverList {
+  title: string;
+  movers: Mover[];
+  // 列表项右侧显示的内容
+  format: (mover: Mover) => string;
+  tone: 'up' | 'down' | 'neutral';
+  // 标题中显示的总数（新上榜/跌出榜单）
+  total?: number;
+}
+
+const rankMetric = findMetric('总排名')!;
+const readMetric = findMetric('总阅读数')!;
+
+function signed(text: string, value: number): string {
+  return value > 0 ? `+${text}` : text;
+}
+
+const formatRankChange = (mover: Mover) =>
+  `${mover.value !== null ? `第 ${formatMetricValue(rankMetric, mover.value)} 名 ` : ''}${signed(String(mover.change), mover.change)}`;
+const formatReadChange = (mover: Mover) => signed(formatMetricValue(readMetric, mover.change), mover.change);
+const formatGrowth = (mover: Mover) => signed(`${(mover.change * 100).toFixed(1)}%`, mover.change);
+const formatReads = (mover: Mover) => mover.value !== null ? `阅读 ${formatMetricValue(readMetric, mover.value)}` : '-';
+
+export default function TopMovers({
+  data,
+  hasPrevious,
+  style
+}: {
+  data: TopMoversData;
+  // 没有上个月数据时不显示新上榜和跌出榜单
+  hasPrevious: boolean;
+  style?: React.CSSProperties;
+}) {
+  const lists: MoverList[] = [
+    { title: '排名上升', movers: data.rankRisers, format: formatRankChange, tone: 'up' },
+    { title: '排名下降', movers: data.rankFallers, format: formatRankChange, tone: 'down' },
+    { title: '阅读增量最多', movers: data.readRisers, format: formatReadChange, tone: 'up' },
+    { title: '阅读减少最多', movers: data.readFallers, format: formatReadChange, tone: 'down' },
+    { title: '阅读增幅最大', movers: data.growthRisers, format: formatGrowth, tone: 'up' },
+    { title: '阅读降幅最大', movers: data.growthFallers, format: formatGrowth, tone: 'down' },
+  ];
+  if (hasPrevious) {
+    lists.push(
+      { title: '新上榜', movers: data.newEntrants, format: formatReads, tone: 'neutral', total: data.newEntrantCount },
+      { title: '跌出榜单', movers: data.dropouts, format: formatReads, tone: 'neutral', total: data.dropoutCount }
+    );
+  }
+
+  return (
+    <div className={styles.grid} style={style}>
+      {lists.map(list => (
+        <div key={list.title} className={styles.card}>
+          <div className={styles.cardTitle}>
+            {list.title}
+            {list.total !== undefined && list.total > list.movers.length && (
+              <span className={styles.total}>共 {list.total} 个</span>
+            )}
+          </div>
+          {list.movers.length === 0 ? (
+            <div className={styles.empty}>无</div>
+          ) : (
+            <ol className={styles.list}>
+              {list.movers.map(mover => (
+                <li key={mover.accountKey}>
+                  <span className={styles.name}>{mover.accountName}</span>
+                  <span className={list.tone === 'up' ? styles.up : list.tone === 'down' ? styles.down : styles.neutral}>
+                    {list.format(mover)}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
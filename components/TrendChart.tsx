@@ -0,0 +1,265 @@
+'use client';
+
+import { useState } from 'react';
+import styles from './TrendChart.module.css';
+
+/**
+ * 按月趋势折线图（SVG，浏览器端渲染）
+ * 图形样式全部写在 SVG 属性上，html2canvas 导出图片时才能保留
+ */
+
+export interface TrendSeries {
+  name: string;
+  color: string;
+  // 与 labels 一一对应，null 表示该月无数据
+  values: (number | null)[];
+}
+
+const WIDTH = 720;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 24, bottom: 28, left: 64 };
+const GRID_LINES = 4;
+
+// 向上取整到 1/2/5 × 10^n，使纵轴刻度更易读
+function niceMax(value: number): number {
+  if (value <= 0) {
+    return 1;
+  }
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const step = [1, 2, 5, 10].find(item => item * magnitude >= value) || 10;
+  return step * magnitude;
+}
+
+// 将序列按无数据的月份拆成多段连续折线
+function splitSegments(points: ({ x: number; y: number } | null)[]) {
+  const segments: { x: number; y: number }[][] = [];
+  let current: { x: number; y: number }[] = [];
+  points.forEach(point => {
+    if (point) {
+      current.push(point);
+    } else if (current.length > 0) {
+      segments.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) {
+    segments.push(current);
+  }
+  return segments;
+}
+
+export default function TrendChart({
+  labels,
+  series,
+  formatValue,
+  axisColor = '#8c8c8c',
+  invert = false
+}: {
+  labels: string[];
+  series: TrendSeries[];
+  formatValue: (value: number) => string;
+  axisColor?: string;
+  // 排名等数值越小越好的指标，翻转纵轴使 0 在顶部
+  invert?: boolean;
+}) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const allValues = series.flatMap(item => item.values).filter((value): value is number => value !== null);
+  const maxValue = niceMax(Math.max(0, ...allValues));
+  const step = labels.length > 1 ? plotWidth / (labels.length - 1) : 0;
+
+  const xOf = (index: number) => PADDING.left + (labels.length > 1 ? index * step : plotWidth / 2);
+  const yOf = (value: number) => invert
+    ? PADDING.top + (value / maxValue) * plotHeight
+    : PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+  const baseline = yOf(0);
+
+  // 根据鼠标位置找到最近的月份
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (labels.length === 0) {
+      return;
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const index = step > 0 ? Math.round((x - PADDING.left) / step) : 0;
+    setHoverIndex(Math.min(labels.length - 1, Math.max(0, index)));
+  };
+
+  return (
+    <div className={styles.chart}>
+      <div className={styles.plot}>
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          width="100%"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHoverIndex(null)}
+        >
+          {/* 纵轴刻度和网格线 */}
+          {Array.from({ length: GRID_LINES + 1 }, (_, index) => {
+            const value = (maxValue / GRID_LINES) * index;
+            const y = yOf(value);
+            return (
+              <g key={index}>
+                <line
+                  x1={PADDING.left}
+                  x2={WIDTH - PADDING.right}
+                  y1={y}
+                  y2={y}
+                  stroke={axisColor}
+                  strokeOpacity={0.2}
+                  strokeDasharray={index === 0 ? undefined : '4 4'}
+                />
+                <text x={PADDING.left - 8} y={y + 4} textAnchor="end" fontSize={11} fill={axisColor}>
+                  {formatValue(value)}
+                </text>
+              </g>
+            );
+          })}
+
+          {/* 横轴月份 */}
+          {labels.map((label, index) => (
+            <text key={label} x={xOf(index)} y={HEIGHT - 8} textAnchor="middle" fontSize={11} fill={axisColor}>
+              {label}
+            </text>
+          ))}
+
+          {/* 各账号的面积和折线 */}
+          {series.map(item => {
+            const points = item.values.map((value, index) =>
+              value === null ? null : { x: xOf(index), y: yOf(value) }
+            );
+            return (
+              <g key={item.name}>
+                {splitSegments(points).map((segment, index) => {
+                  const line = segment.map(point => `${point.x},${point.y}`).join(' ');
+                  const area = `${segment[0].x},${baseline} ${line} ${segment[segment.length - 1].x},${baseline}`;
+                  return (
+                    <g key={index}>
+                      <polygon points={area} fill={item.color} fillOpacity={0.08} />
+                      <polyline points={line} fill="none" stroke={item.color} strokeWidth={2} />
+                    </g>
+                  );
+                })}
+                {points.map((point, index) => point && (
+                  <circle
+                    key={index}
+                    cx={point.x}
+                    cy={point.y}
+                    r={hoverIndex === index ? 5 : 3}
+                    fill={item.color}
+                  />
+                ))}
+              </g>
+            );
+          })}
+
+          {hoverIndex !== null && (
+            <line
+              x1={xOf(hoverIndex)}
+              x2={xOf(hoverIndex)}
+              y1={PADDING.top}
+              y2={PADDING.top + plotHeight}
+              stroke={axisColor}
+              strokeOpacity={0.5}
+            />
+          )}
+        </svg>
+
+        {/* 悬停提示：当月数值及环比变化 */}
+        {hoverIndex !== null && (
+          <div
+            className={`${styles.tooltip} ${xOf(hoverIndex) > WIDTH / 2 ? styles.tooltipLeft : ''}`}
+            style={{ left: `${(xOf(hoverIndex) / WIDTH) * 100}%` }}
+          >
+            <div className={styles.tooltipTitle}>{labels[hoverIndex]}</div>
+            {series.map(item => {
+              const value = item.values[hoverIndex];
+              const previous = hoverIndex > 0 ? item.values[hoverIndex - 1] : null;
+              // 排名的变化按"上月排名 - 本月排名"计算，正数表示排名上升
+              const change = value !== null && previous !== null
+                ? (invert ? previous - value : value - previous)
+                : null;
+              return (
+                <div key={item.name} className={styles.tooltipRow}>
+                  <span className={styles.legendDot} style={{ background: item.color }} />
+                  <span className={styles.tooltipName}>{item.name}</span>
+                  <span>{value === null ? '无数据' : formatValue(value)}</span>
+                  {change !== null && change !== 0 && (
+                    <span className={change > 0 ? styles.increase : styles.decrease}>
+                      {change > 0 ? '+' : '-'}{formatValue(Math.abs(change))}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className={styles.legend}>
+        {series.map(item => (
+          <span key={item.name} className={styles.legendItem}>
+            <span className={styles.legendDot} style={{ background: item.color }} />
+            {item.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 迷你折线图，用于在表格或卡片中展示趋势
+ */
+export function Sparkline({
+  values,
+  color,
+  width = 120,
+  height = 32,
+  invert = false
+}: {
+  values: (number | null)[];
+  color: string;
+  width?: number;
+  height?: number;
+  // 排名等数值越小越好的指标，翻转纵轴使"上升"表示变好
+  invert?: boolean;
+}) {
+  const numbers = values.filter((value): value is number => value !== null);
+  if (numbers.length === 0) {
+    return null;
+  }
+
+  const min = Math.min(...numbers);
+  const max = Math.max(...numbers);
+  const range = max - min || 1;
+  const step = values.length > 1 ? (width - 4) / (values.length - 1) : 0;
+  const points = values.map((value, index) => {
+    if (value === null) {
+      return null;
+    }
+    const ratio = (value - min) / range;
+    return {
+      x: 2 + (values.length > 1 ? index * step : (width - 4) / 2),
+      y: 2 + (height - 4) * (invert ? ratio : 1 - ratio),
+    };
+  });
+  const last = [...points].reverse().find(point => point !== null);
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+      {splitSegments(points).map((segment, index) => (
+        <polyline
+          key={index}
+          points={segment.map(point => `${point.x},${point.y}`).join(' ')}
+          fill="none"
+          stroke={color}
+          strokeWidth={1.5}
+        />
+      ))}
+      {last && <circle cx={last.x} cy={last.y} r={2.5} fill={color} />}
+    </svg>
+  );
+}
@@ -0,0 +1,50 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DATA_DIR } from './dataStore';
+import { AccountAlias, AccountResolver, createAccountResolver } from './accountIdentity';
+
+/**
+ * 账号别名表，保存在 data/account-aliases.json
+ */
+export const ALIASES_FILE = path.resolve(DATA_DIR, 'account-aliases.json');
+
+function isValidAlias(alias: unknown): alias is AccountAlias {
+  return typeof alias === 'object' && alias !== null
+    && 'id' in alias && typeof alias.id === 'string' && alias.id.trim() !== ''
+    && 'name' in alias && typeof alias.name === 'string'
+    && (!('aliases' in alias) || alias.aliases === undefined || (
+      Array.isArray(alias.aliases) && alias.aliases.every((name: unknown) => typeof name === 'string')
+    ));
+}
+
+/**
+ * 读取账号别名表，文件不存在时返回空表
+ */
+export function loadAccountAliases(): AccountAlias[] {
+  if (!fs.existsSync(ALIASES_FILE)) {
+    return [];
+  }
+
+  const config = JSON.parse(fs.readFileSync(ALIASES_FILE, 'utf8'));
+  if (!config || !Array.isArray(config.accounts)) {
+    throw new Error('账号别名表格式不正确：缺少 accounts');
+  }
+
+  const invalid = config.accounts.find((alias: unknown) => !isValidAlias(alias));
+  if (invalid) {
+    throw new Error(`账号别名表格式不正确：${JSON.stringify(invalid)}`);
+  }
+
+  return config.accounts.map((alias: AccountAlias) => ({
+    id: alias.id.trim(),
+    name: alias.name || alias.id,
+    aliases: alias.aliases || []
+  }));
+}
+
+/**
+ * 基于别名表创建账号解析器
+ */
+export function loadAccountResolver(): AccountResolver {
+  return createAccountResolver(loadAccountAliases());
+}
@@ -0,0 +1,100 @@
+import { listMonths, readMonthData } from './dataStore';
+import { AccountResolver, assignAccountKeys, matchesAccountName } from './accountIdentity';
+import { getMetricValue, METRICS } from './metrics';
+import { AccountData } from './workbookParser';
+
+export interface AccountHistoryEntry {
+  month: string;
+  // 该月没有这个账号时为 null
+  data: AccountData | null;
+}
+
+export interface MonthValue {
+  month: string;
+  value: number;
+}
+
+export interface MetricExtremes {
+  key: string;
+  label: string;
+  best: MonthValue | null;
+  worst: MonthValue | null;
+}
+
+export type AccountHistoryResult =
+  | {
+    ok: true;
+    name: string;
+    accountKey: string;
+    history: AccountHistoryEntry[];
+    extremes: MetricExtremes[];
+    failedMonths: string[];
+  }
+  | { ok: false; status: number; error: string };
+
+/**
+ * 计算每个指标表现最好和最差的月份（排名类指标数值越小越好）
+ */
+export function findMetricExtremes(history: AccountHistoryEntry[]): MetricExtremes[] {
+  return METRICS.map(metric => {
+    const values = history
+      .filter(entry => entry.data)
+      .map(entry => ({ month: entry.month, value: getMetricValue(metric, entry.data!) }))
+      .filter((item): item is MonthValue => item.value !== null);
+
+    if (values.length === 0) {
+      return { key: metric.key, label: metric.label, best: null, worst: null };
+    }
+
+    const better = (a: MonthValue, b: MonthValue) => metric.isRank ? a.value < b.value : a.value > b.value;
+    const best = values.reduce((result, item) => better(item, result) ? item : result);
+    const worst = values.reduce((result, item) => better(result, item) ? item : result);
+    return { key: metric.key, label: metric.label, best, worst };
+  });
+}
+
+/**
+ * 读取某个账号在所有月份中的数据
+ * 名称可以是公众号名称、帐号名或别名表中的别名；读取失败的月份会被跳过并记录
+ */
+export function loadAccountHistory(name: string, resolver: AccountResolver): AccountHistoryResult {
+  const accountKey = resolver.resolveName(name);
+  if (!accountKey) {
+    return { ok: false, status: 400, error: '账号名称不能为空' };
+  }
+
+  const failedMonths: string[] = [];
+  const months = listMonths().map(month => {
+    const result = readMonthData(month);
+    if (!result.ok) {
+      failedMonths.push(month);
+      return { month, accounts: [] as AccountData[] };
+    }
+    return { month, accounts: assignAccountKeys(result.sheet.accounts, resolver) };
+  });
+
+  // 名称不在别名表中且与唯一标识不同（如输入公众号名称）时，按名称找到一行数据，改用该行的唯一标识
+  const allAccounts = months.flatMap(item => item.accounts);
+  const targetKey = allAccounts.some(item => item.accountKey === accountKey)
+    ? accountKey
+    : allAccounts.find(item => matchesAccountName(item, name, resolver))?.accountKey;
+
+  const history: AccountHistoryEntry[] = months.map(({ month, accounts }) => ({
+    month,
+    data: (targetKey && accounts.find(item => item.accountKey === targetKey)) || null
+  }));
+
+  const latest = [...history].reverse().find(entry => entry.data)?.data;
+  if (!latest) {
+    return { ok: false, status: 404, error: `没有找到账号: ${name}` };
+  }
+
+  return {
+    ok: true,
+    name: resolver.getCanonicalName(accountKey) || latest.公众号 || latest.帐号名 || name,
+    accountKey: latest.accountKey,
+    history,
+    extremes: findMetricExtremes(history),
+    failedMonths
+  };
+}
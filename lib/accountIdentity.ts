@@ -0,0 +1,86 @@
+import type { AccountData } from './workbookParser';
+
+/**
+ * 账号别名：将多个公众号名称或帐号名（微信号）映射到同一个账号
+ */
+export interface AccountAlias {
+  id: string;
+  name: string;
+  aliases: string[];
+}
+
+export interface AccountResolver {
+  // 解析一行账号数据的唯一标识
+  resolveAccount(account: Pick<AccountData, '公众号' | '帐号名'>): string;
+  // 解析单个名称（公众号名称、帐号名或别名）的唯一标识
+  resolveName(name: string): string;
+  // 获取唯一标识对应的标准名称，不在别名表中时返回 undefined
+  getCanonicalName(key: string): string | undefined;
+}
+
+/**
+ * 规范化账号名称：全角转半角、去除空白、转小写
+ */
+export function normalizeAccountName(name: string): string {
+  return (name || '').normalize('NFKC').replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * 未配置别名时的账号标识，优先使用帐号名（微信号），其次公众号名称
+ */
+export function defaultAccountKey(account: Pick<AccountData, '公众号' | '帐号名'>): string {
+  return normalizeAccountName(account.帐号名 || account.公众号 || '');
+}
+
+/**
+ * 根据别名表创建账号解析器
+ */
+export function createAccountResolver(aliases: AccountAlias[]): AccountResolver {
+  const lookup = new Map<string, AccountAlias>();
+  const canonicalNames = new Map<string, string>();
+
+  aliases.forEach(alias => {
+    const key = normalizeAccountName(alias.id);
+    canonicalNames.set(key, alias.name);
+    [alias.id, alias.name, ...alias.aliases].forEach(name => {
+      const normalized = normalizeAccountName(name);
+      if (normalized && !lookup.has(normalized)) {
+        lookup.set(normalized, alias);
+      }
+    });
+  });
+
+  const findAlias = (name: string) => lookup.get(normalizeAccountName(name));
+
+  return {
+    resolveAccount(account) {
+      const alias = (account.帐号名 && findAlias(account.帐号名))
+        || (account.公众号 && findAlias(account.公众号));
+      return alias ? normalizeAccountName(alias.id) : defaultAccountKey(account);
+    },
+    resolveName(name) {
+      const alias = findAlias(name);
+      return normalizeAccountName(alias ? alias.id : name);
+    },
+    getCanonicalName(key) {
+      return canonicalNames.get(key);
+    },
+  };
+}
+
+/**
+ * 使用解析器为每行账号数据计算唯一标识（返回新数组，不修改原数据）
+ */
+export function assignAccountKeys(accounts: AccountData[], resolver: AccountResolver): AccountData[] {
+  return accounts.map(account => ({ ...account, accountKey: resolver.resolveAccount(account) }));
+}
+
+/**
+ * 判断账号数据是否对应某个名称（公众号名称、帐号名或别名均可）
+ */
+export function matchesAccountName(account: AccountData, name: string, resolver: AccountResolver): boolean {
+  const key = resolver.resolveName(name);
+  return account.accountKey === key
+    || normalizeAccountName(account.公众号) === key
+    || normalizeAccountName(account.帐号名) === key;
+}
@@ -0,0 +1,221 @@
+import { AccountData } from './workbookParser';
+import { findMetric, formatMetricValue, getMetricValue, MetricDefinition } from './metrics';
+import { previousMonthOf, shiftMonth } from './periods';
+import { MonthAccounts } from './rollup';
+
+/**
+ * 指标异常波动检测
+ * - percent：与上个月相比的变化幅度超过阈值
+ * - zscore：偏离该账号前几个月均值的标准差倍数超过阈值
+ * - rank：总排名上升或下降的名次超过阈值
+ */
+
+export type AnomalyType = 'percent' | 'zscore' | 'rank';
+
+export interface AnomalyThresholds {
+  // 变化幅度，0.5 表示 50%
+  percentChange: number;
+  zScore: number;
+  rankJump: number;
+  // 计算 z-score 时使用的前几个月
+  trailingMonths: number;
+}
+
+export interface Anomaly {
+  accountKey: string;
+  accountName: string;
+  metric: string;
+  type: AnomalyType;
+  value: number;
+  // 用于比较的上月数值，z-score 为前几个月的均值
+  baseline: number;
+  // percent 为变化幅度，zscore 为标准差倍数，rank 为名次变化（正数表示上升）
+  score: number;
+  reason: string;
+}
+
+export const DEFAULT_THRESHOLDS: AnomalyThresholds = {
+  percentChange: 0.5,
+  zScore: 2.5,
+  rankJump: 20,
+  trailingMonths: 6,
+};
+
+// 参与检测的指标（指标注册表中的 key），排名单独按名次变化检测
+export const ANOMALY_METRICS = ['总阅读数', '头条阅读', '总在看数', '总点赞数', '总转发数', '发文数'];
+
+const RANK_METRIC = '总排名';
+
+// z-score 至少需要的历史月份数
+const MIN_TRAILING_VALUES = 3;
+
+export type ThresholdsResult =
+  | { ok: true; thresholds: AnomalyThresholds }
+  | { ok: false; status: number; error: string };
+
+/**
+ * 从查询参数读取阈值：percent=50（%）、z=2.5、rank=20、trailing=6，未提供时使用默认值
+ */
+export function parseThresholds(searchParams: URLSearchParams): ThresholdsResult {
+  const thresholds = { ...DEFAULT_THRESHOLDS };
+  const params: { name: string; key: keyof AnomalyThresholds; scale: number; integer?: boolean }[] = [
+    { name: 'percent', key: 'percentChange', scale: 0.01 },
+    { name: 'z', key: 'zScore', scale: 1 },
+    { name: 'rank', key: 'rankJump', scale: 1, integer: true },
+    { name: 'trailing', key: 'trailingMonths', scale: 1, integer: true },
+  ];
+
+  for (const param of params) {
+    const raw = searchParams.get(param.name);
+    if (raw === null || raw.trim() === '') {
+      continue;
+    }
+    const value = Number(raw);
+    if (!isFinite(value) || value <= 0 || (param.integer && !Number.isInteger(value))) {
+      return { ok: false, status: 400, error: `${param.name} 必须是正${param.integer ? '整' : ''}数: ${raw}` };
+    }
+    thresholds[param.key] = value * param.scale;
+  }
+
+  return { ok: true, thresholds };
+}
+
+function accountName(account: AccountData): string {
+  return account.公众号 || account.帐号名 || account.accountKey;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+}
+
+function percentAnomaly(metric: MetricDefinition, account: AccountData, value: number, previous: number, threshold: number): Anomaly | null {
+  if (previous <= 0) {
+    return null;
+  }
+  const change = (value - previous) / previous;
+  if (Math.abs(change) < threshold) {
+    return null;
+  }
+  return {
+    accountKey: account.accountKey,
+    accountName: accountName(account),
+    metric: metric.key,
+    type: 'percent',
+    value,
+    baseline: previous,
+    score: change,
+    reason: `${metric.key}较上月${change > 0 ? '增长' : '下降'} ${(Math.abs(change) * 100).toFixed(1)}%`
+      + `（${formatMetricValue(metric, previous)} → ${formatMetricValue(metric, value)}）`,
+  };
+}
+
+function zScoreAnomaly(metric: MetricDefinition, account: AccountData, value: number, trailing: number[], thresholds: AnomalyThresholds): Anomaly | null {
+  if (trailing.length < MIN_TRAILING_VALUES) {
+    return null;
+  }
+  const deviation = standardDeviation(trailing);
+  if (deviation === 0) {
+    return null;
+  }
+  const average = mean(trailing);
+  const zScore = (value - average) / deviation;
+  if (Math.abs(zScore) < thresholds.zScore) {
+    return null;
+  }
+  return {
+    accountKey: account.accountKey,
+    accountName: accountName(account),
+    metric: metric.key,
+    type: 'zscore',
+    value,
+    baseline: average,
+    score: zScore,
+    reason: `${metric.key}${zScore > 0 ? '高于' : '低于'}前 ${trailing.length} 个月均值 ${Math.abs(zScore).toFixed(1)} 个标准差`
+      + `（均值 ${formatMetricValue(metric, average)}，本月 ${formatMetricValue(metric, value)}）`,
+  };
+}
+
+function rankAnomaly(account: AccountData, previousAccount: AccountData | undefined, threshold: number): Anomaly | null {
+  const metric = findMetric(RANK_METRIC)!;
+  const rank = getMetricValue(metric, account);
+  const previousRank = previousAccount ? getMetricValue(metric, previousAccount) : null;
+  if (rank === null || previousRank === null) {
+    return null;
+  }
+  // 与供应商的"总排名变化"一致：上月排名 - 本月排名，正数表示排名上升
+  const change = previousRank - rank;
+  if (Math.abs(change) < threshold) {
+    return null;
+  }
+  return {
+    accountKey: account.accountKey,
+    accountName: accountName(account),
+    metric: metric.key,
+    type: 'rank',
+    value: rank,
+    baseline: previousRank,
+    score: change,
+    reason: `总排名${change > 0 ? '上升' : '下降'} ${Math.abs(change)} 名（${previousRank} → ${rank}）`,
+  };
+}
+
+/**
+ * 检测当月各账号的异常波动
+ * @param current 当月数据
+ * @param history 当月之前的月份数据，按自然月取用：上一个自然月作为环比的上月，前 trailingMonths 个自然月用于 z-score
+ * 缺少上一个自然月时不做环比和排名检查，不会拿更早的月份代替
+ */
+export function detectAnomalies(
+  current: MonthAccounts,
+  history: MonthAccounts[],
+  thresholds: AnomalyThresholds = DEFAULT_THRESHOLDS
+): Anomaly[] {
+  const firstTrailingMonth = shiftMonth(current.month, -thresholds.trailingMonths);
+  const trailingMonths = history.filter(item => item.month >= firstTrailingMonth && item.month < current.month);
+  const previousMonth = history.find(item => item.month === previousMonthOf(current.month));
+  const metrics = ANOMALY_METRICS.map(key => findMetric(key)!);
+  const anomalies: Anomaly[] = [];
+
+  current.accounts.forEach(account => {
+    const findAccount = (month: MonthAccounts) => month.accounts.find(item => item.accountKey === account.accountKey);
+    const previousAccount = previousMonth ? findAccount(previousMonth) : undefined;
+
+    metrics.forEach(metric => {
+      const value = getMetricValue(metric, account);
+      if (value === null) {
+        return;
+      }
+
+      const previous = previousAccount ? getMetricValue(metric, previousAccount) : null;
+      const percent = previous !== null
+        ? percentAnomaly(metric, account, value, previous, thresholds.percentChange)
+        : null;
+      if (percent) {
+        anomalies.push(percent);
+      }
+
+      const trailing = trailingMonths
+        .map(month => {
+          const item = findAccount(month);
+          return item ? getMetricValue(metric, item) : null;
+        })
+        .filter((item): item is number => item !== null);
+      const zScore = zScoreAnomaly(metric, account, value, trailing, thresholds);
+      if (zScore) {
+        anomalies.push(zScore);
+      }
+    });
+
+    const rank = rankAnomaly(account, previousAccount, thresholds.rankJump);
+    if (rank) {
+      anomalies.push(rank);
+    }
+  });
+
+  return anomalies;
+}
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DATA_DIR } from './dataStore';
+
+/**
+ * 竞品分组配置，保存在 data/competitor-groups.json
+ */
+export interface CompetitorGroup {
+  id: string;
+  name: string;
+  accounts: string[];
+}
+
+export interface CompetitorGroupConfig {
+  defaultGroup: string;
+  groups: CompetitorGroup[];
+}
+
+export type GroupSelectionResult =
+  | { ok: true; group: CompetitorGroup }
+  | { ok: false; status: number; error: string };
+
+export const GROUPS_FILE = path.resolve(DATA_DIR, 'competitor-groups.json');
+
+// 未提供配置文件时使用的默认分组
+const FALLBACK_CONFIG: CompetitorGroupConfig = {
+  defaultGroup: 'ai-media-top3',
+  groups: [
+    { id: 'ai-media-top3', name: 'AI 媒体前三', accounts: ['新智元', '机器之心', '量子位'] }
+  ]
+};
+
+// 通过 accounts 参数临时指定账号时的分组 ID
+export const CUSTOM_GROUP_ID = 'custom';
+
+function isValidGroup(group: unknown): group is CompetitorGroup {
+  return typeof group === 'object' && group !== null
+    && 'id' in group && typeof group.id === 'string' && group.id !== ''
+    && 'name' in group && typeof group.name === 'string'
+    && 'accounts' in group && Array.isArray(group.accounts)
+    && group.accounts.length > 0
+    && group.accounts.every((account: unknown) => typeof account === 'string' && account.trim() !== '');
+}
+
+/**
+ * 读取竞品分组配置，配置文件不存在时返回默认分组
+ */
+export function loadCompetitorGroups(): CompetitorGroupConfig {
+  if (!fs.existsSync(GROUPS_FILE)) {
+    return FALLBACK_CONFIG;
+  }
+
+  const config = JSON.parse(fs.readFileSync(GROUPS_FILE, 'utf8'));
+  if (!config || !Array.isArray(config.groups) || config.groups.length === 0) {
+    throw new Error('竞品分组配置格式不正确：缺少 groups');
+  }
+
+  const invalid = config.groups.find((group: unknown) => !isValidGroup(group));
+  if (invalid) {
+    throw new Error(`竞品分组配置格式不正确：${JSON.stringify(invalid)}`);
+  }
+
+  const groups: CompetitorGroup[] = config.groups.map((group: CompetitorGroup) => ({
+    id: group.id,
+    name: group.name || group.id,
+    accounts: group.accounts.map(account => account.trim())
+  }));
+  const defaultGroup = groups.some(group => group.id === config.defaultGroup)
+    ? config.defaultGroup
+    : groups[0].id;
+
+  return { defaultGroup, groups };
+}
+
+/**
+ * 根据查询参数确定要对比的账号
+ * - accounts=新智元,量子位 直接指定账号（优先）
+ * - group=tech-media 使用配置中的分组
+ * - 都未提供时使用默认分组
+ */
+export function resolveGroupSelection(
+  config: CompetitorGroupConfig,
+  searchParams: URLSearchParams
+): GroupSelectionResult {
+  const accountsParam = searchParams.get('accounts');
+  if (accountsParam !== null) {
+    const accounts = Array.from(new Set(
+      accountsParam.split(/[,，]/).map(account => account.trim()).filter(Boolean)
+    ));
+    if (accounts.length === 0) {
+      return { ok: false, status: 400, error: 'accounts 参数不能为空' };
+    }
+    return { ok: true, group: { id: CUSTOM_GROUP_ID, name: '自定义', accounts } };
+  }
+
+  const groupId = searchParams.get('group') || config.defaultGroup;
+  const group = config.groups.find(item => item.id === groupId);
+  if (!group) {
+    return { ok: false, status: 404, error: `竞品分组不存在: ${groupId}` };
+  }
+  return { ok: true, group };
+}
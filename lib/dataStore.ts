@@ -0,0 +1,911 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { parseWorkbookSheets, WorkbookSheet } from './workbookParser';
+import {
+  DEFAULT_SOURCE_RULES,
+  isSheetIncluded,
+  mergeSheetSources,
+  orderSourceFiles,
+  parseSourceRules,
+  SheetSource,
+  SOURCE_RULES_FILE_NAME,
+  SourceRules,
+  SourceSummary
+} from './sourceRules';
+import {
+  checkSnapshot,
+  FileStat,
+  hashFile,
+  hashMonthData,
+  hashRules,
+  MonthData,
+  MonthSnapshot,
+  readSnapshot,
+  readVersionMap,
+  readVersionSnapshots,
+  sameSourceFiles,
+  SNAPSHOT_DIR_NAME,
+  SNAPSHOT_SCHEMA_VERSION,
+  uniqueVersion,
+  versionFromDate,
+  writeSnapshot,
+  writeVersionMap
+} from './snapshotStore';
+import { VersionSummary } from './versionHistory';
+
+// 确保使用正确的数据目录路径
+export const DATA_DIR = path.resolve(process.cwd(), 'data');
+
+export const SNAPSHOT_DIR = path.resolve(DATA_DIR, SNAPSHOT_DIR_NAME);
+
+const HISTORY_DIR = path.resolve(SNAPSHOT_DIR, 'history');
+
+// 各月份固定显示的版本
+const PINS_FILE = path.resolve(SNAPSHOT_DIR, 'pins.json');
+
+// 各月份最近一次回滚生成的版本，来源文件变化后失效
+const ROLLBACKS_FILE = path.resolve(SNAPSHOT_DIR, 'rollbacks.json');
+
+const MONTH_PATTERN = /^\d{6}$/;
+
+// version 为返回数据的版本号，pinned 表示返回的是固定显示的版本而不是最新数据
+export type MonthDataResult =
+  | ({ ok: true; version: string; pinned: boolean } & MonthData)
+  | { ok: false; status: number; error: string };
+
+type WorkbookResult =
+  | { ok: true; sheets: WorkbookSheet[] }
+  | { ok: false; status: number; error: string };
+
+export interface CacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  // 文件被替换（修改时间或大小变化）后重新读取的次数
+  invalidations: number;
+  // 未命中内存缓存时，从 JSON 快照读取的次数
+  snapshotLoads: number;
+  // 快照不存在或已过期，重新解析 Excel 的次数
+  workbookParses: number;
+}
+
+interface CacheEntry {
+  // 来源文件名、大小、修改时间及合并规则，任一变化即失效
+  key: string;
+  version: string;
+  data: MonthData;
+}
+
+interface MonthDataCache {
+  entries: Map<string, CacheEntry>;
+  // 历史版本不会再改变，按"月份/版本号"缓存
+  versions: Map<string, MonthSnapshot>;
+  stats: Omit<CacheStats, 'entries'>;
+}
+
+const EMPTY_STATS: Omit<CacheStats, 'entries'> = { hits: 0, misses: 0, invalidations: 0, snapshotLoads: 0, workbookParses: 0 };
+
+// 各月份数据的进程内缓存，按月份缓存，来源文件或合并规则变化后失效
+// 挂在 globalThis 上，使各个 API 路由及开发模式热更新后共用同一份缓存
+const globalForCache = globalThis as unknown as { monthDataCache?: MonthDataCache };
+const cache: MonthDataCache = globalForCache.monthDataCache || {
+  entries: new Map(),
+  versions: new Map(),
+  stats: { ...EMPTY_STATS }
+};
+cache.versions = cache.versions || new Map();
+globalForCache.monthDataCache = cache;
+
+export function getCacheStats(): CacheStats {
+  return { entries: cache.entries.size, ...EMPTY_STATS, ...cache.stats };
+}
+
+export function clearCache() {
+  cache.entries.clear();
+  cache.versions.clear();
+  cache.stats = { ...EMPTY_STATS };
+}
+
+export function isExcelFile(file: string): boolean {
+  return file.endsWith('.xlsx') || file.endsWith('.xls');
+}
+
+export function isMonthCode(month: string): boolean {
+  return MONTH_PATTERN.test(month);
+}
+
+/**
+ * 获取所有包含 Excel 文件的月份文件夹（升序）
+ */
+export function listMonths(): string[] {
+  if (!fs.existsSync(DATA_DIR)) {
+    return [];
+  }
+
+  try {
+    return fs.readdirSync(DATA_DIR)
+      .filter(item => {
+        try {
+          const itemPath = path.join(DATA_DIR, item);
+          if (!isMonthCode(item) || !fs.statSync(itemPath).isDirectory()) {
+            return false;
+          }
+          // 检查文件夹中是否有Excel文件
+          return fs.readdirSync(itemPath).some(isExcelFile);
+        } catch {
+          // 忽略无法访问的文件夹
+          return false;
+        }
+      })
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+export const SOURCE_RULES_FILE = path.resolve(DATA_DIR, SOURCE_RULES_FILE_NAME);
+
+/**
+ * 读取多文件/多工作表的合并规则，配置文件不存在时使用默认规则（合并全部工作表）
+ */
+export function loadSourceRules(): SourceRules {
+  if (!fs.existsSync(SOURCE_RULES_FILE)) {
+    return DEFAULT_SOURCE_RULES;
+  }
+  return parseSourceRules(JSON.parse(fs.readFileSync(SOURCE_RULES_FILE, 'utf8')));
+}
+
+/**
+ * 读取并解析一个 Excel 文件的全部工作表
+ */
+function readWorkbook(monthDir: string, excelFile: string): WorkbookResult {
+  // 使用 path.resolve 确保路径正确，处理中文文件名
+  const filePath = path.resolve(monthDir, excelFile);
+
+  // 检查文件权限
+  try {
+    fs.accessSync(filePath, fs.constants.R_OK);
+  } catch {
+    return { ok: false, status: 403, error: `无法读取文件: ${excelFile}，请检查文件权限` };
+  }
+
+  let workbook: XLSX.WorkBook;
+  try {
+    // 先读取文件内容再解析，可以更好地处理文件访问错误
+    const fileBuffer = fs.readFileSync(filePath);
+    workbook = XLSX.read(fileBuffer, { type: 'buffer' });
+  } catch (readError) {
+    const errorMsg = readError instanceof Error ? readError.message : '未知错误';
+    const errorCode = (readError as NodeJS.ErrnoException)?.code;
+
+    // 如果是文件访问错误，提供更友好的提示
+    if (errorCode === 'ENOENT' || errorCode === 'EACCES' || errorMsg.includes('Cannot access file')) {
+      return {
+        ok: false,
+        status: 404,
+        error: `无法访问文件: ${excelFile}。请确保：1) 文件未被其他程序（如 Excel）打开；2) 文件权限正确；3) 文件路径正确。`
+      };
+    }
+
+    return {
+      ok: false,
+      status: 500,
+      error: `读取 Excel 文件失败: ${errorMsg}${errorCode ? ` (${errorCode})` : ''}`
+    };
+  }
+
+  try {
+    return { ok: true, sheets: parseWorkbookSheets(workbook) };
+  } catch (parseError) {
+    return {
+      ok: false,
+      status: 400,
+      error: parseError instanceof Error ? parseError.message : '解析 Excel 数据失败'
+    };
+  }
+}
+
+// 月份文件夹中参与合并的来源文件及合并规则
+type MonthSourcesResult =
+  | { ok: true; monthDir: string; rules: SourceRules; rulesHash: string; stats: FileStat[] }
+  | { ok: false; status: number; error: string };
+
+function listMonthSources(month: string): MonthSourcesResult {
+  if (!isMonthCode(month)) {
+    return { ok: false, status: 400, error: `月份格式不正确: ${month}` };
+  }
+
+  const monthDir = path.resolve(DATA_DIR, month);
+  if (!fs.existsSync(monthDir)) {
+    return { ok: false, status: 404, error: `月份文件夹不存在: ${monthDir}` };
+  }
+
+  // 查找该文件夹中的 Excel 文件
+  let files: string[];
+  try {
+    files = fs.readdirSync(monthDir, { encoding: 'utf8' });
+  } catch {
+    return { ok: false, status: 500, error: `无法读取文件夹: ${month}` };
+  }
+
+  let rules: SourceRules;
+  try {
+    rules = loadSourceRules();
+  } catch (configError) {
+    return {
+      ok: false,
+      status: 500,
+      error: configError instanceof Error ? configError.message : '读取来源合并规则失败'
+    };
+  }
+
+  const excelFiles = orderSourceFiles(files.filter(isExcelFile), rules);
+  if (excelFiles.length === 0) {
+    return { ok: false, status: 404, error: `未找到 Excel 文件，文件夹中的文件: ${files.join(', ')}` };
+  }
+
+  const stats: FileStat[] = [];
+  for (const file of excelFiles) {
+    try {
+      const stat = fs.statSync(path.resolve(monthDir, file));
+      stats.push({ file, size: stat.size, mtimeMs: stat.mtimeMs });
+    } catch {
+      return { ok: false, status: 403, error: `无法读取文件: ${file}，请检查文件权限` };
+    }
+  }
+
+  return { ok: true, monthDir, rules, rulesHash: hashRules(rules), stats };
+}
+
+/**
+ * 按合并规则挑选一个文件中参与合并的工作表，加入 sources 并记录到 summaries
+ * 返回第一个解析失败的工作表的错误信息
+ */
+function collectSheetSources(
+  excelFile: string,
+  sheets: WorkbookSheet[],
+  rules: SourceRules,
+  sources: SheetSource[],
+  summaries: SourceSummary[]
+): string | undefined {
+  let firstError: string | undefined;
+  sheets.forEach(({ sheetName, sheet, error }) => {
+    const summary: SourceSummary = { file: excelFile, sheetName, included: false, rowCount: sheet?.accounts.length || 0 };
+    if (!isSheetIncluded(sheetName, rules)) {
+      summary.reason = '按合并规则不读取该工作表';
+    } else if (!sheet) {
+      summary.reason = error;
+      firstError = firstError || error || '解析 Excel 数据失败';
+    } else {
+      summary.included = true;
+      sources.push({ file: excelFile, sheetName, sheet });
+    }
+    summaries.push(summary);
+  });
+  return firstError;
+}
+
+function hasNameColumn(source: SheetSource): boolean {
+  return source.sheet.schema.columns.includes('公众号') || source.sheet.schema.columns.includes('帐号名');
+}
+
+// 有多个工作表时，没有账号名称列的工作表（如说明页）不参与合并
+function dropSheetsWithoutNames(sources: SheetSource[], summaries: SourceSummary[]) {
+  if (sources.length <= 1) {
+    return;
+  }
+  const usable = sources.filter(hasNameColumn);
+  if (usable.length === 0) {
+    return;
+  }
+  sources.filter(source => !hasNameColumn(source)).forEach(source => {
+    const summary = summaries.find(item => item.file === source.file && item.sheetName === source.sheetName)!;
+    summary.included = false;
+    summary.reason = '缺少账号名称列';
+  });
+  sources.splice(0, sources.length, ...usable);
+}
+
+/**
+ * 解析并合并月份文件夹中的 Excel 文件
+ * 按 data/source-rules.json 选择工作表并决定同一账号出现在多个来源时以哪个为准
+ */
+function parseMonthFolder(
+  month: string,
+  monthDir: string,
+  excelFiles: string[],
+  rules: SourceRules
+): ({ ok: true } & MonthData) | { ok: false; status: number; error: string } {
+  const sources: SheetSource[] = [];
+  const summaries: SourceSummary[] = [];
+  let firstError: Extract<WorkbookResult, { ok: false }> | null = null;
+  for (const excelFile of excelFiles) {
+    const workbook = readWorkbook(monthDir, excelFile);
+    if (!workbook.ok) {
+      firstError = firstError || workbook;
+      summaries.push({ file: excelFile, sheetName: '', included: false, rowCount: 0, reason: workbook.error });
+      continue;
+    }
+
+    const error = collectSheetSources(excelFile, workbook.sheets, rules, sources, summaries);
+    if (error) {
+      firstError = firstError || { ok: false, status: 400, error };
+    }
+  }
+  dropSheetsWithoutNames(sources, summaries);
+
+  if (sources.length === 0) {
+    return firstError || { ok: false, status: 400, error: `${month} 没有可读取的工作表` };
+  }
+
+  const merged = mergeSheetSources(sources, rules);
+  return {
+    ok: true,
+    month,
+    file: sources[0].file,
+    files: Array.from(new Set(sources.map(source => source.file))),
+    sheet: merged.sheet,
+    sources: summaries,
+    conflicts: merged.conflicts
+  };
+}
+
+export function snapshotPath(month: string): string {
+  return path.resolve(SNAPSHOT_DIR, `${month}.json`);
+}
+
+function historyDir(month: string): string {
+  return path.resolve(HISTORY_DIR, month);
+}
+
+/**
+ * 保存当前快照；数据与最近一个历史版本不同时另存为新版本，相同时沿用该版本号
+ * 回滚总是生成新版本，只有重新恢复同一次回滚时才沿用
+ */
+function storeSnapshot(snapshot: MonthSnapshot) {
+  const versions = readVersionSnapshots(historyDir(snapshot.month));
+  const latest = versions[versions.length - 1];
+  if (latest && latest.dataHash === snapshot.dataHash && (!snapshot.restoredFrom || latest.restoredFrom === snapshot.restoredFrom)) {
+    snapshot.version = latest.version;
+  } else {
+    snapshot.version = uniqueVersion(historyDir(snapshot.month), snapshot.version);
+    writeSnapshot(path.resolve(historyDir(snapshot.month), `${snapshot.version}.json`), snapshot);
+  }
+  writeSnapshot(snapshotPath(snapshot.month), snapshot);
+}
+
+// 读取数据时顺带更新快照，数据目录不可写时只是下次仍需解析 Excel，不影响本次请求
+function saveSnapshotQuietly(snapshot: MonthSnapshot, recordVersion = true) {
+  try {
+    if (recordVersion) {
+      storeSnapshot(snapshot);
+    } else {
+      writeSnapshot(snapshotPath(snapshot.month), snapshot);
+    }
+  } catch {
+    // 写入失败时保留旧快照
+  }
+}
+
+function cacheKey(sources: Extract<MonthSourcesResult, { ok: true }>): string {
+  return [sources.rulesHash, ...sources.stats.map(stat => `${stat.file}:${stat.size}:${stat.mtimeMs}`)].join('|');
+}
+
+// 只保留成功结果中的数据部分，写入快照及缓存
+function toMonthData({ month, file, files, sheet, sources, conflicts }: MonthData): MonthData {
+  return { month, file, files, sheet, sources, conflicts };
+}
+
+function newSnapshot(
+  month: string,
+  sources: Extract<MonthSourcesResult, { ok: true }>,
+  data: MonthData,
+  restoredFrom?: string
+): MonthSnapshot {
+  const now = new Date();
+  return {
+    schemaVersion: SNAPSHOT_SCHEMA_VERSION,
+    month,
+    version: versionFromDate(now),
+    dataHash: hashMonthData(data),
+    ...(restoredFrom ? { restoredFrom } : {}),
+    ingestedAt: now.toISOString(),
+    rulesHash: sources.rulesHash,
+    fingerprints: sources.stats.map(stat => ({ ...stat, hash: hashFile(path.resolve(sources.monthDir, stat.file)) })),
+    data
+  };
+}
+
+/**
+ * 解析 Excel 并生成快照，快照由调用方保存
+ */
+function ingestSources(
+  month: string,
+  sources: Extract<MonthSourcesResult, { ok: true }>
+): { ok: true; snapshot: MonthSnapshot } | { ok: false; status: number; error: string } {
+  const result = parseMonthFolder(month, sources.monthDir, sources.stats.map(stat => stat.file), sources.rules);
+  if (!result.ok) {
+    return result;
+  }
+  cache.stats.workbookParses++;
+  return { ok: true, snapshot: reapplyRollback(newSnapshot(month, sources, toMonthData(result))) };
+}
+
+/**
+ * 历史版本的数据是否为当前格式
+ * 快照格式升级后重新解析的数据没有变化时沿用原版本号，历史文件仍记录旧的格式版本，此时与当前快照的数据哈希相同
+ */
+function hasCurrentSchema(snapshot: MonthSnapshot): boolean {
+  if (snapshot.schemaVersion === SNAPSHOT_SCHEMA_VERSION) {
+    return true;
+  }
+  const current = readSnapshot(snapshotPath(snapshot.month));
+  return !!current && current.schemaVersion === SNAPSHOT_SCHEMA_VERSION && current.dataHash === snapshot.dataHash;
+}
+
+/**
+ * 重新解析后恢复回滚的数据：来源文件与回滚时相同（如只是合并规则变化）时，仍以回滚生成的版本作为最新数据；
+ * 来源文件已变化，或快照格式升级后回滚的版本已是旧格式时，回滚失效，使用解析结果
+ */
+function reapplyRollback(parsed: MonthSnapshot): MonthSnapshot {
+  const rollbacks = readVersionMap(ROLLBACKS_FILE);
+  const version = rollbacks[parsed.month];
+  if (!version) {
+    return parsed;
+  }
+  const rolledBack = readVersionSnapshot(parsed.month, version);
+  if (
+    rolledBack &&
+    hasCurrentSchema(rolledBack) &&
+    sameSourceFiles(rolledBack.fingerprints, parsed.fingerprints)
+  ) {
+    return { ...parsed, dataHash: rolledBack.dataHash, restoredFrom: rolledBack.restoredFrom, data: rolledBack.data };
+  }
+
+  delete rollbacks[parsed.month];
+  try {
+    writeVersionMap(ROLLBACKS_FILE, rollbacks);
+  } catch {
+    // 写入失败时下次解析仍会判断为失效
+  }
+  return parsed;
+}
+
+/**
+ * 读取某个月份的最新数据
+ * 依次使用进程内缓存、JSON 快照（data/.snapshots/YYYYMM.json），快照不存在或已过期时才解析 Excel 并更新快照
+ */
+function readLatestMonthData(month: string):
+  | { ok: true; version: string; data: MonthData }
+  | { ok: false; status: number; error: string } {
+  const sources = listMonthSources(month);
+  if (!sources.ok) {
+    return sources;
+  }
+
+  const key = cacheKey(sources);
+  const cached = cache.entries.get(month);
+  if (cached && cached.key === key) {
+    cache.stats.hits++;
+    return { ok: true, version: cached.version, data: cached.data };
+  }
+  if (cached) {
+    cache.stats.invalidations++;
+    cache.entries.delete(month);
+  }
+  cache.stats.misses++;
+
+  const snapshot = readSnapshot(snapshotPath(month));
+  const freshness = snapshot && checkSnapshot(snapshot, sources.monthDir, sources.stats, sources.rulesHash);
+  if (snapshot && freshness?.fresh) {
+    if (freshness.refreshed) {
+      // 文件内容未变，只记录新的修改时间，下次不必再计算哈希
+      saveSnapshotQuietly(snapshot, false);
+    }
+    cache.stats.snapshotLoads++;
+  } else {
+    const result = ingestSources(month, sources);
+    if (!result.ok) {
+      return result;
+    }
+    saveSnapshotQuietly(result.snapshot);
+    return remember(month, key, result.snapshot);
+  }
+  return remember(month, key, snapshot);
+}
+
+function remember(month: string, key: string, snapshot: MonthSnapshot) {
+  cache.entries.set(month, { key, version: snapshot.version, data: snapshot.data });
+  return { ok: true as const, version: snapshot.version, data: snapshot.data };
+}
+
+function readVersionSnapshot(month: string, version: string): MonthSnapshot | null {
+  const cacheId = `${month}/${version}`;
+  const cached = cache.versions.get(cacheId);
+  if (cached) {
+    return cached;
+  }
+  // 版本号只能由数字和连字符组成，防止读取历史目录之外的文件
+  if (!/^[\d-]+$/.test(version)) {
+    return null;
+  }
+  const snapshot = readSnapshot(path.resolve(historyDir(month), `${version}.json`));
+  if (snapshot) {
+    cache.versions.set(cacheId, snapshot);
+  }
+  return snapshot;
+}
+
+export interface ReadMonthOptions {
+  // 读取指定的历史版本
+  version?: string;
+  // 该月份固定了版本时返回固定的版本，只有看板（/api/data）及看板上的异常提醒使用；其余接口及导入检查总是读取最新数据
+  usePin?: boolean;
+}
+
+/**
+ * 读取某个月份的数据，默认返回最新数据
+ * 指定 version 时返回该历史版本；usePin 为 true 且该月份固定了版本时返回固定的版本
+ * 返回的数据在多次请求间共用，调用方不应修改
+ */
+export function readMonthData(month: string, options: ReadMonthOptions = {}): MonthDataResult {
+  // 即使显示的是历史版本，也要先读取最新数据，使新放入的文件及时记录为新版本
+  const latest = readLatestMonthData(month);
+  if (!latest.ok) {
+    return latest;
+  }
+
+  const pinnedVersion = readVersionMap(PINS_FILE)[month];
+  const target = options.version || (options.usePin && pinnedVersion) || latest.version;
+  const pinned = !!pinnedVersion && target === pinnedVersion;
+  if (target === latest.version) {
+    return { ok: true, version: target, pinned, ...latest.data };
+  }
+
+  const snapshot = readVersionSnapshot(month, target);
+  if (!snapshot) {
+    return { ok: false, status: 404, error: `${month} 没有版本 ${target}` };
+  }
+  return { ok: true, version: target, pinned, ...snapshot.data };
+}
+
+export type SnapshotStatus = 'fresh' | 'stale' | 'missing';
+
+export type IngestResult =
+  | {
+    ok: true;
+    month: string;
+    status: 'created' | 'updated' | 'unchanged';
+    version: string;
+    ingestedAt: string;
+    reason?: string;
+    rowCount: number;
+  }
+  | { ok: false; status: number; error: string };
+
+/**
+ * 查看某个月份快照的状态
+ */
+export function getSnapshotStatus(month: string):
+  | { ok: true; month: string; status: SnapshotStatus; version: string | null; ingestedAt: string | null; reason?: string }
+  | { ok: false; status: number; error: string } {
+  const sources = listMonthSources(month);
+  if (!sources.ok) {
+    return sources;
+  }
+  const snapshot = readSnapshot(snapshotPath(month));
+  if (!snapshot) {
+    return { ok: true, month, status: 'missing', version: null, ingestedAt: null };
+  }
+  const freshness = checkSnapshot(snapshot, sources.monthDir, sources.stats, sources.rulesHash);
+  const { version, ingestedAt } = snapshot;
+  return freshness.fresh
+    ? { ok: true, month, status: 'fresh', version, ingestedAt }
+    : { ok: true, month, status: 'stale', version, ingestedAt, reason: freshness.reason };
+}
+
+/**
+ * 将某个月份的 Excel 转换为 JSON 快照，快照仍有效时不重复解析（force 为 true 时总是重新解析）
+ * 数据有变化时记录为新版本
+ */
+export function ingestMonth(month: string, force = false): IngestResult {
+  const sources = listMonthSources(month);
+  if (!sources.ok) {
+    return sources;
+  }
+
+  const existing = readSnapshot(snapshotPath(month));
+  const freshness = existing && checkSnapshot(existing, sources.monthDir, sources.stats, sources.rulesHash);
+  if (existing && freshness?.fresh && !force) {
+    if (freshness.refreshed) {
+      saveSnapshotQuietly(existing, false);
+    }
+    return {
+      ok: true,
+      month,
+      status: 'unchanged',
+      version: existing.version,
+      ingestedAt: existing.ingestedAt,
+      rowCount: existing.data.sheet.accounts.length
+    };
+  }
+
+  const result = ingestSources(month, sources);
+  if (!result.ok) {
+    return result;
+  }
+  try {
+    storeSnapshot(result.snapshot);
+  } catch (writeError) {
+    return {
+      ok: false,
+      status: 500,
+      error: `保存快照失败: ${writeError instanceof Error ? writeError.message : '未知错误'}`
+    };
+  }
+  cache.entries.delete(month);
+  const { snapshot } = result;
+  return {
+    ok: true,
+    month,
+    status: existing ? 'updated' : 'created',
+    version: snapshot.version,
+    ingestedAt: snapshot.ingestedAt,
+    reason: existing ? (freshness && !freshness.fresh ? freshness.reason : '重新解析') : undefined,
+    rowCount: snapshot.data.sheet.accounts.length
+  };
+}
+
+function toVersionSummary(snapshot: MonthSnapshot): VersionSummary {
+  return {
+    version: snapshot.version,
+    ingestedAt: snapshot.ingestedAt,
+    files: snapshot.fingerprints.map(({ file, hash }) => ({ file, hash })),
+    rowCount: snapshot.data.sheet.accounts.length,
+    ...(snapshot.restoredFrom ? { restoredFrom: snapshot.restoredFrom } : {})
+  };
+}
+
+export type MonthVersionsResult =
+  | { ok: true; month: string; latest: string; pinned: string | null; versions: VersionSummary[] }
+  | { ok: false; status: number; error: string };
+
+/**
+ * 列出某个月份的全部历史版本（按时间升序）以及最新版本、固定的版本
+ */
+export function listMonthVersions(month: string): MonthVersionsResult {
+  const latest = readLatestMonthData(month);
+  if (!latest.ok) {
+    return latest;
+  }
+  return {
+    ok: true,
+    month,
+    latest: latest.version,
+    pinned: readVersionMap(PINS_FILE)[month] || null,
+    versions: readVersionSnapshots(historyDir(month)).map(toVersionSummary)
+  };
+}
+
+export type VersionActionResult =
+  | { ok: true; month: string; version: string | null }
+  | { ok: false; status: number; error: string };
+
+/**
+ * 固定看板显示的版本，version 为 null 时取消固定
+ * 固定后放入新文件仍会记录为新版本，但看板继续显示固定的版本；其余接口仍读取最新数据
+ */
+export function pinMonthVersion(month: string, version: string | null): VersionActionResult {
+  if (!isMonthCode(month)) {
+    return { ok: false, status: 400, error: `月份格式不正确: ${month}` };
+  }
+  if (version && !readVersionSnapshot(month, version)) {
+    return { ok: false, status: 404, error: `${month} 没有版本 ${version}` };
+  }
+
+  const pins = readVersionMap(PINS_FILE);
+  if (version) {
+    pins[month] = version;
+  } else {
+    delete pins[month];
+  }
+  try {
+    writeVersionMap(PINS_FILE, pins);
+  } catch (writeError) {
+    return {
+      ok: false,
+      status: 500,
+      error: `保存固定版本失败: ${writeError instanceof Error ? writeError.message : '未知错误'}`
+    };
+  }
+  return { ok: true, month, version };
+}
+
+/**
+ * 回滚到某个历史版本：以该版本的数据生成一个新版本作为最新数据，并取消该月份的固定
+ * 回滚记录在 rollbacks.json 中，修改合并规则导致重新解析后仍保持回滚的数据；
+ * 月份文件夹中的文件再次变化，或快照格式升级使回滚的数据成为旧格式时，回滚失效，照常解析为新版本
+ * 旧格式的版本与当前的数据结构不一致，不能回滚
+ */
+export function rollbackMonth(month: string, version: string): VersionActionResult {
+  const sources = listMonthSources(month);
+  if (!sources.ok) {
+    return sources;
+  }
+  const target = readVersionSnapshot(month, version);
+  if (!target) {
+    return { ok: false, status: 404, error: `${month} 没有版本 ${version}` };
+  }
+  if (!hasCurrentSchema(target)) {
+    return {
+      ok: false,
+      status: 409,
+      error: `${month} 的版本 ${version} 是旧格式（格式版本 ${target.schemaVersion}）的快照，不能回滚`
+    };
+  }
+
+  // 记录当前文件的哈希，使当前文件不会被视为新数据而覆盖回滚结果
+  const snapshot = newSnapshot(month, sources, target.data, version);
+  try {
+    storeSnapshot(snapshot);
+  } catch (writeError) {
+    return {
+      ok: false,
+      status: 500,
+      error: `保存快照失败: ${writeError instanceof Error ? writeError.message : '未知错误'}`
+    };
+  }
+  cache.entries.delete(month);
+
+  const rollbacks = readVersionMap(ROLLBACKS_FILE);
+  rollbacks[month] = snapshot.version;
+  try {
+    writeVersionMap(ROLLBACKS_FILE, rollbacks);
+  } catch (writeError) {
+    return {
+      ok: false,
+      status: 500,
+      error: `保存回滚记录失败: ${writeError instanceof Error ? writeError.message : '未知错误'}`
+    };
+  }
+
+  const unpinned = pinMonthVersion(month, null);
+  if (!unpinned.ok) {
+    return unpinned;
+  }
+  return { ok: true, month, version: snapshot.version };
+}
+
+export type UploadCheckResult =
+  | { ok: true; rowCount: number; missingColumns: string[]; sources: SourceSummary[] }
+  | { ok: false; status: number; error: string; sources?: SourceSummary[] };
+
+/**
+ * 检查上传的 Excel 文件能否被看板读取：按合并规则选择工作表（与读取月份文件夹时相同），
+ * 第一个工作表是封面或说明页时仍可读取其余工作表
+ */
+export function checkUploadedWorkbook(fileName: string, content: Buffer): UploadCheckResult {
+  let rules: SourceRules;
+  try {
+    rules = loadSourceRules();
+  } catch (configError) {
+    return {
+      ok: false,
+      status: 500,
+      error: configError instanceof Error ? configError.message : '读取来源合并规则失败'
+    };
+  }
+  if (orderSourceFiles([fileName], rules).length === 0) {
+    return { ok: false, status: 400, error: `按合并规则不读取文件 ${fileName}，请修改文件名或 ${SOURCE_RULES_FILE_NAME}` };
+  }
+
+  let sheets: WorkbookSheet[];
+  try {
+    sheets = parseWorkbookSheets(XLSX.read(content, { type: 'buffer' }));
+  } catch (parseError) {
+    return { ok: false, status: 400, error: `文件无法解析: ${parseError instanceof Error ? parseError.message : '未知错误'}` };
+  }
+
+  const sources: SheetSource[] = [];
+  const summaries: SourceSummary[] = [];
+  const error = collectSheetSources(fileName, sheets, rules, sources, summaries);
+  dropSheetsWithoutNames(sources, summaries);
+  const merged = sources.length > 0 ? mergeSheetSources(sources, rules) : null;
+  if (!merged || merged.sheet.accounts.length === 0) {
+    return { ok: false, status: 400, error: error ? `文件无法解析: ${error}` : '文件中没有账号数据', sources: summaries };
+  }
+  if (!sources.some(hasNameColumn)) {
+    return { ok: false, status: 400, error: '文件中没有包含账号名称列（公众号或帐号名）的工作表', sources: summaries };
+  }
+
+  return {
+    ok: true,
+    rowCount: merged.sheet.accounts.length,
+    missingColumns: merged.sheet.schema.missing,
+    sources: summaries
+  };
+}
+
+/**
+ * 月份文件夹中的 Excel 文件，文件夹不存在时返回空数组
+ */
+export function listMonthFiles(month: string): string[] {
+  const monthDir = path.resolve(DATA_DIR, month);
+  if (!isMonthCode(month) || !fs.existsSync(monthDir)) {
+    return [];
+  }
+  return fs.readdirSync(monthDir, { encoding: 'utf8' }).filter(isExcelFile);
+}
+
+export interface SaveMonthFileOptions {
+  // 确认覆盖同名文件
+  overwrite: boolean;
+  // 用户选择替换的已有文件（文件名），不指定时上传的文件作为补充来源与已有文件合并
+  replace?: string;
+}
+
+export type SaveMonthFileResult =
+  | { ok: true; month: string; file: string; replaced: string[]; files: string[] }
+  | { ok: false; status: number; error: string; existingFiles?: string[] };
+
+/**
+ * 将上传的 Excel 文件保存到月份文件夹
+ * 已有同名文件时，只有 overwrite 为 true 才会替换；其他已有文件只有被指定为 replace 时才会删除，
+ * 否则保留，上传的文件作为补充来源按合并规则与其合并
+ */
+export function saveMonthFile(
+  month: string,
+  fileName: string,
+  content: Buffer,
+  options: SaveMonthFileOptions
+): SaveMonthFileResult {
+  if (!isMonthCode(month)) {
+    return { ok: false, status: 400, error: `月份格式不正确: ${month}` };
+  }
+
+  // 只保留文件名部分，防止写到月份文件夹之外
+  const safeName = path.basename(fileName);
+  if (!safeName || !isExcelFile(safeName)) {
+    return { ok: false, status: 400, error: `只支持 .xlsx 或 .xls 文件: ${fileName}` };
+  }
+
+  const monthDir = path.resolve(DATA_DIR, month);
+  const existingFiles = listMonthFiles(month);
+  const { overwrite, replace } = options;
+
+  if (replace && !existingFiles.includes(replace)) {
+    return { ok: false, status: 404, error: `${month} 中没有文件 ${replace}`, existingFiles };
+  }
+  if (existingFiles.includes(safeName) && !overwrite) {
+    return {
+      ok: false,
+      status: 409,
+      error: `${month} 已有同名文件 ${safeName}，需要确认覆盖`,
+      existingFiles
+    };
+  }
+
+  try {
+    fs.mkdirSync(monthDir, { recursive: true });
+
+    // 先写入临时文件再重命名，避免写入中途失败留下不完整的文件
+    const targetPath = path.resolve(monthDir, safeName);
+    const tempPath = path.resolve(monthDir, `.${safeName}.uploading`);
+    fs.writeFileSync(tempPath, content);
+
+    if (replace && replace !== safeName) {
+      fs.unlinkSync(path.resolve(monthDir, replace));
+    }
+    fs.renameSync(tempPath, targetPath);
+  } catch (writeError) {
+    return {
+      ok: false,
+      status: 500,
+      error: `保存文件失败: ${writeError instanceof Error ? writeError.message : '未知错误'}`
+    };
+  }
+
+  const replaced = existingFiles.filter(file => file === safeName || file === replace);
+  return { ok: true, month, file: safeName, replaced, files: listMonthFiles(month) };
+}
@@ -0,0 +1,31 @@
+/**
+ * 由原始字段计算的派生比率，在解析工作簿时写入账号数据
+ * 多个月份汇总时也要用汇总后的分子分母重新计算，不能直接相加或取平均
+ */
+export const DERIVED_FIELDS: Record<string, { numerator: string; denominator: string }> = {
+  点赞率: { numerator: '点赞总数', denominator: '阅读总数' },
+  转发率: { numerator: '转发总量', denominator: '阅读总数' },
+  头条阅读占比: { numerator: '头条文章阅读量', denominator: '阅读总数' },
+  '10万+命中率': { numerator: '超10W文章数', denominator: '文章总数' },
+  单次发布阅读: { numerator: '阅读总数', denominator: '发布次数' },
+};
+
+/**
+ * 计算比率，任一方无数据或分母为 0 时返回 null
+ */
+export function safeRatio(numerator: unknown, denominator: unknown): number | null {
+  if (typeof numerator !== 'number' || typeof denominator !== 'number' || denominator === 0) {
+    return null;
+  }
+  return numerator / denominator;
+}
+
+/**
+ * 计算派生比率并写入账号数据（直接修改传入的对象）
+ */
+export function applyDerivedFields(account: Record<string, string | number | null>) {
+  Object.keys(DERIVED_FIELDS).forEach(field => {
+    const { numerator, denominator } = DERIVED_FIELDS[field];
+    account[field] = safeRatio(account[numerator], account[denominator]);
+  });
+}
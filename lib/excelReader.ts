@@ -1,73 +1,12 @@
 import * as XLSX from 'xlsx';
+import { AccountData, ParsedSheet, parseWorkbook, parseWorkbookSheets } from './workbookParser';
+import { defaultAccountKey } from './accountIdentity';
+import { getMetricIncrement, getMetricValue, MetricDefinition, resolveMetrics } from './metrics';
 
-export interface AccountData {
-  公众号: string;
-  帐号名: string;
-  文章总数: number;
-  文章总增量: number;
-  超10W文章数: number;
-  超10W文章数增量: number;
-  阅读总数: number;
-  阅读总数增量: number;
-  平均阅读数: number;
-  平均阅读数增量: number;
-  推荐总数: number;
-  推荐总数增量: number;
-  平均推荐数: number;
-  平均推荐数增量: number;
-  发布次数: number;
-  发布次数增量: number;
-  头条文章阅读量: number;
-  头条文章阅读增量: number;
-  头条文章推荐数: number;
-  最大阅读数: number;
-  最大推荐数: number;
-  推荐率: number;
-  点赞总数: number;
-  点赞数增量: number;
-  最大点赞数: number;
-  头条文章点赞总数: number;
-  平均点赞数: number;
-  平均点赞数增量: number;
-  转发总量: number;
-  最大转发数: number;
-  头条转发总数: number;
-  WCI: number;
-  WCI增量: number;
-  总排名: number;
-  总排名变化: number;
-  [key: string]: string | number; // 允许其他字段
-}
+export type { AccountData, ParseDiagnostic, ParsedSheet } from './workbookParser';
 
 export interface ProcessedAccountData extends AccountData {
-  [key: string]: string | number;
-}
-
-/**
- * 解析数字，支持带"w"（万）和"+"的单位
- */
-function parseNumber(value: string | number): number {
-  if (typeof value === 'number') {
-    return value;
-  }
-  
-  if (typeof value !== 'string') {
-    return 0;
-  }
-
-  // 移除空格和加号
-  const cleaned = value.toString().trim().replace(/\+/g, '');
-  
-  // 处理"w"单位（万）
-  if (cleaned.includes('w')) {
-    const numPart = cleaned.replace('w', '').replace('+', '');
-    const num = parseFloat(numPart);
-    return isNaN(num) ? 0 : num * 10000;
-  }
-  
-  // 处理普通数字
-  const num = parseFloat(cleaned);
-  return isNaN(num) ? 0 : num;
+  [key: string]: string | number | null;
 }
 
 /**
@@ -81,9 +20,10 @@ export function formatNumber(num: number): string {
 }
 
 /**
- * 读取 Excel 文件并解析数据
+ * 读取 Excel 文件并解析数据（浏览器端，用于上传前预览）
+ * 返回账号数据以及表头检查、数字转换诊断信息；第一个工作表没有账号数据（如封面、说明页）时预览第一个有数据的工作表
  */
-export async function readExcelFile(file: File): Promise<AccountData[]> {
+export async function readExcelFile(file: File): Promise<ParsedSheet> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     
@@ -91,45 +31,8 @@ export async function readExcelFile(file: File): Promise<AccountData[]> {
       try {
         const data = e.target?.result;
         const workbook = XLSX.read(data, { type: 'binary' });
-        
-        // 读取第一个工作表
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        
-        // 转换为 JSON
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { 
-          header: 1,
-          defval: ''
-        }) as any[][];
-        
-        if (jsonData.length < 2) {
-          reject(new Error('Excel 文件格式不正确，至少需要表头和数据行'));
-          return;
-        }
-        
-        // 第一行是表头
-        const headers = jsonData[0] as string[];
-        const dataRows = jsonData.slice(1);
-        
-        // 解析数据
-        const accounts: AccountData[] = dataRows
-          .filter(row => row && (row[0] || row[1])) // 过滤空行（检查公众号或帐号名）
-          .map(row => {
-            const account: any = {};
-            headers.forEach((header, index) => {
-              const value = row[index];
-              // 字符串字段
-              if (header === '公众号' || header === '帐号名') {
-                account[header] = value?.toString() || '';
-              } else {
-                // 数字字段
-                account[header] = parseNumber(value);
-              }
-            });
-            return account as AccountData;
-          });
-        
-        resolve(accounts);
+        const withAccounts = parseWorkbookSheets(workbook).find(item => item.sheet && item.sheet.accounts.length > 0);
+        resolve(withAccounts?.sheet || parseWorkbook(workbook));
       } catch (error) {
         reject(error);
       }
@@ -148,8 +51,8 @@ export async function readExcelFile(file: File): Promise<AccountData[]> {
  * 注意：Excel 文件已经包含了增量数据，这里我们使用 Excel 中的增量字段
  */
 export function getAccountKey(account: AccountData): string {
-  // 使用帐号名作为唯一标识
-  return account.帐号名 || account.公众号 || '';
+  // 优先使用服务端按别名表解析出的标识，其次使用规范化后的帐号名
+  return account.accountKey || defaultAccountKey(account);
 }
 
 /**
@@ -168,66 +71,39 @@ function safeGetValue<T>(getter: () => T, fieldName: string): T | { error: strin
   }
 }
 
+export interface MetricCell {
+  value: number | null | { error: string };
+  increment: number | null | { error: string };
+}
+
+export interface DisplayMetrics {
+  账号名称: string | { error: string };
+  // 按指标 key 索引的数值和增量
+  cells: Record<string, MetricCell>;
+}
+
 /**
- * 获取前端显示所需的数据（简化版，只显示10列）
+ * 获取前端显示所需的数据，显示的列由指标注册表决定
+ * 数值为 null 表示该月无数据，前端显示为"无数据"
  * @param account 当前月份账号数据
- * @param previousAccount 上个月账号数据（仅用于计算总转发数差值）
+ * @param previousAccount 上个月账号数据（用于计算没有增量字段的指标，如总转发数）
+ * @param metrics 需要显示的指标，默认为看板默认列
  */
 export function getDisplayMetrics(
   account: AccountData, 
-  previousAccount?: AccountData
-) {
-  // 计算总转发数的差值（当前月 - 上个月）
-  // 如果没有上个月数据，返回null（不显示增量）
-  let forwardIncrement: number | null = null;
-  if (previousAccount) {
-    try {
-      const currentForward = account.转发总量 || 0;
-      const previousForward = previousAccount.转发总量 || 0;
-      forwardIncrement = currentForward - previousForward;
-    } catch (error) {
-      forwardIncrement = null;
-    }
-  }
+  previousAccount?: AccountData,
+  metrics: MetricDefinition[] = resolveMetrics()
+): DisplayMetrics {
+  const cells: Record<string, MetricCell> = {};
+  metrics.forEach(metric => {
+    cells[metric.key] = {
+      value: safeGetValue(() => getMetricValue(metric, account), metric.label),
+      increment: safeGetValue(() => getMetricIncrement(metric, account, previousAccount), `${metric.label}增量`)
+    };
+  });
 
   return {
     账号名称: safeGetValue(() => account.公众号 || account.帐号名 || '-', '账号名称'),
-    发文数: {
-      value: safeGetValue(() => account.文章总数 ?? 0, '发文数'),
-      increment: safeGetValue(() => account.文章总增量 ?? 0, '发文数增量')
-    },
-    总阅读数: {
-      value: safeGetValue(() => account.阅读总数 ?? 0, '总阅读数'),
-      increment: safeGetValue(() => account.阅读总数增量 ?? 0, '总阅读数增量')
-    },
-    头条阅读: {
-      value: safeGetValue(() => account.头条文章阅读量 ?? 0, '头条阅读'),
-      increment: safeGetValue(() => account.头条文章阅读增量 ?? 0, '头条阅读增量')
-    },
-    '10万+': {
-      value: safeGetValue(() => account.超10W文章数 ?? 0, '10万+'),
-      increment: safeGetValue(() => account.超10W文章数增量 ?? 0, '10万+增量')
-    },
-    平均阅读: {
-      value: safeGetValue(() => account.平均阅读数 ?? 0, '平均阅读'),
-      increment: safeGetValue(() => account.平均阅读数增量 ?? 0, '平均阅读增量')
-    },
-    总在看数: {
-      value: safeGetValue(() => account.推荐总数 ?? 0, '总在看数'),
-      increment: safeGetValue(() => account.推荐总数增量 ?? 0, '总在看数增量')
-    },
-    总点赞数: {
-      value: safeGetValue(() => account.点赞总数 ?? 0, '总点赞数'),
-      increment: safeGetValue(() => account.点赞数增量 ?? 0, '总点赞数增量')
-    },
-    总转发数: {
-      value: safeGetValue(() => account.转发总量 ?? 0, '总转发数'),
-      increment: forwardIncrement // 特殊处理：当前月 - 上个月，如果没有上个月数据则为null
-    },
-    'WCI/排名': {
-      value: safeGetValue(() => account.总排名 ?? 0, 'WCI/排名'),
-      increment: safeGetValue(() => account.总排名变化 ?? 0, 'WCI/排名变化')
-    }
+    cells
   };
 }
-
@@ -0,0 +1,238 @@
+import html2canvas from 'html2canvas';
+import type { Options as Html2CanvasOptions } from 'html2canvas/dist/types';
+import { buildPdf, pageSliceHeight, PdfImage } from './pdfWriter';
+import { downloadBlob } from './tableExport';
+
+/**
+ * 页面内容导出为图片或 PDF（浏览器端）
+ * 截取一个或多个区域，在上方加标题、副标题和统计周期，下方加数据来源和导出时间，可选平铺水印
+ * PNG 将所有区域上下拼接为一张图片；PDF 每个区域从新的一页开始，超过一页高度时按页高分成多页
+ */
+
+export type ImageExportFormat = 'png' | 'pdf';
+
+export interface ImageExportSettings {
+  title: string;
+  subtitle: string;
+  // 统计周期，如"2025年1月 - 2025年12月"
+  dateRange: string;
+  // 数据来源说明
+  source: string;
+  // 水印文字，为空时不加水印
+  watermark: string;
+  format: ImageExportFormat;
+}
+
+export interface ImageExportTheme {
+  background: string;
+  textColor: string;
+  mutedColor: string;
+}
+
+export const LIGHT_EXPORT_THEME: ImageExportTheme = {
+  background: '#ffffff',
+  textColor: '#1a1a1a',
+  mutedColor: '#8c8c8c',
+};
+
+export const DEFAULT_EXPORT_SOURCE = '数据来源：微信公众号月度榜单';
+
+// 截图倍率，文字和边距按同一倍率放大
+const SCALE = 2;
+const PADDING = 20 * SCALE;
+const SECTION_GAP = 16 * SCALE;
+const FONT_FAMILY = '-apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif';
+
+function font(size: number, bold = false): string {
+  return `${bold ? 'bold ' : ''}${size * SCALE}px ${FONT_FAMILY}`;
+}
+
+function formatExportTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// 选项使用 html2canvas 自带的类型，@types/html2canvas 是旧版本的声明，没有 backgroundColor、scale
+async function captureElement(element: HTMLElement, theme: ImageExportTheme): Promise<HTMLCanvasElement> {
+  const options: Partial<Html2CanvasOptions> = {
+    backgroundColor: theme.background,
+    scale: SCALE,
+    logging: false,
+    useCORS: true,
+  };
+  return html2canvas(element, options);
+}
+
+// 在画布上斜向平铺水印文字
+function drawWatermark(ctx: CanvasRenderingContext2D, width: number, height: number, text: string, theme: ImageExportTheme) {
+  ctx.save();
+  ctx.globalAlpha = 0.12;
+  ctx.fillStyle = theme.textColor;
+  ctx.font = font(20, true);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const stepX = Math.max(ctx.measureText(text).width + 80 * SCALE, 240 * SCALE);
+  const stepY = 140 * SCALE;
+  for (let y = 0; y < height + stepY; y += stepY) {
+    for (let x = (y / stepY) % 2 === 0 ? 0 : stepX / 2; x < width + stepX; x += stepX) {
+      ctx.save();
+      ctx.translate(x, y);
+      ctx.rotate(-Math.PI / 6);
+      ctx.fillText(text, 0, 0);
+      ctx.restore();
+    }
+  }
+  ctx.restore();
+}
+
+/**
+ * 将截图上下拼接，并加上标题、统计周期、数据来源、导出时间及水印
+ */
+function composeCanvas(
+  captures: HTMLCanvasElement[],
+  settings: ImageExportSettings,
+  theme: ImageExportTheme,
+  exportedAt: Date
+): HTMLCanvasElement {
+  const headerLines: { text: string; font: string; color: string; height: number }[] = [
+    { text: settings.title, font: font(24, true), color: theme.textColor, height: 36 * SCALE },
+  ];
+  if (settings.subtitle) {
+    headerLines.push({ text: settings.subtitle, font: font(15), color: theme.textColor, height: 24 * SCALE });
+  }
+  if (settings.dateRange) {
+    headerLines.push({ text: `统计周期：${settings.dateRange}`, font: font(13), color: theme.mutedColor, height: 22 * SCALE });
+  }
+  const headerHeight = headerLines.reduce((total, line) => total + line.height, 0) + 8 * SCALE;
+  const footerHeight = 28 * SCALE;
+
+  const contentWidth = Math.max(...captures.map(capture => capture.width));
+  const contentHeight = captures.reduce((total, capture) => total + capture.height, 0)
+    + SECTION_GAP * (captures.length - 1);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = contentWidth + PADDING * 2;
+  canvas.height = PADDING + headerHeight + contentHeight + footerHeight + PADDING;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('无法创建画布上下文');
+  }
+
+  ctx.fillStyle = theme.background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // 标题区
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  let y = PADDING;
+  headerLines.forEach(line => {
+    ctx.font = line.font;
+    ctx.fillStyle = line.color;
+    ctx.fillText(line.text, canvas.width / 2, y + line.height / 2);
+    y += line.height;
+  });
+  y += 8 * SCALE;
+
+  // 内容区，较窄的截图水平居中
+  captures.forEach(capture => {
+    ctx.drawImage(capture, PADDING + (contentWidth - capture.width) / 2, y);
+    y += capture.height + SECTION_GAP;
+  });
+  y -= SECTION_GAP;
+
+  // 页脚：左侧数据来源，右侧导出时间
+  ctx.font = font(12);
+  ctx.fillStyle = theme.mutedColor;
+  ctx.textBaseline = 'middle';
+  const footerY = y + footerHeight / 2 + 4 * SCALE;
+  if (settings.source) {
+    ctx.textAlign = 'left';
+    ctx.fillText(settings.source, PADDING, footerY);
+  }
+  ctx.textAlign = 'right';
+  ctx.fillText(`导出时间：${formatExportTime(exportedAt)}`, canvas.width - PADDING, footerY);
+
+  if (settings.watermark) {
+    drawWatermark(ctx, canvas.width, canvas.height, settings.watermark, theme);
+  }
+
+  return canvas;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('无法创建图片'));
+      }
+    }, type, quality);
+  });
+}
+
+// 将较高的画布按 A4 竖版页面的高度切成多段，较宽的画布放在一页横向页面上
+function sliceForPdf(canvas: HTMLCanvasElement): { canvas: HTMLCanvasElement; landscape: boolean }[] {
+  const sliceHeight = pageSliceHeight(canvas.width);
+  if (canvas.width > canvas.height || canvas.height <= sliceHeight) {
+    return [{ canvas, landscape: canvas.width > canvas.height }];
+  }
+
+  const slices: { canvas: HTMLCanvasElement; landscape: boolean }[] = [];
+  for (let top = 0; top < canvas.height; top += sliceHeight) {
+    const slice = document.createElement('canvas');
+    slice.width = canvas.width;
+    slice.height = Math.min(sliceHeight, canvas.height - top);
+    const ctx = slice.getContext('2d');
+    if (!ctx) {
+      throw new Error('无法创建画布上下文');
+    }
+    ctx.drawImage(canvas, 0, top, slice.width, slice.height, 0, 0, slice.width, slice.height);
+    slices.push({ canvas: slice, landscape: false });
+  }
+  return slices;
+}
+
+async function toPdfImage(canvas: HTMLCanvasElement, landscape: boolean): Promise<PdfImage> {
+  const blob = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+  return {
+    jpeg: new Uint8Array(await blob.arrayBuffer()),
+    width: canvas.width,
+    height: canvas.height,
+    landscape,
+  };
+}
+
+/**
+ * 导出页面区域，fileName 不含扩展名
+ */
+export async function exportElements(
+  elements: HTMLElement[],
+  settings: ImageExportSettings,
+  fileName: string,
+  theme: ImageExportTheme = LIGHT_EXPORT_THEME
+) {
+  if (elements.length === 0) {
+    throw new Error('没有可导出的内容');
+  }
+
+  const captures: HTMLCanvasElement[] = [];
+  for (const element of elements) {
+    captures.push(await captureElement(element, theme));
+  }
+  const exportedAt = new Date();
+
+  if (settings.format === 'pdf') {
+    const pages: PdfImage[] = [];
+    for (const capture of captures) {
+      for (const slice of sliceForPdf(composeCanvas([capture], settings, theme, exportedAt))) {
+        pages.push(await toPdfImage(slice.canvas, slice.landscape));
+      }
+    }
+    downloadBlob(new Blob([buildPdf(pages).buffer as ArrayBuffer], { type: 'application/pdf' }), `${fileName}.pdf`);
+    return;
+  }
+
+  const blob = await canvasToBlob(composeCanvas(captures, settings, theme, exportedAt), 'image/png');
+  downloadBlob(blob, `${fileName}.png`);
+}
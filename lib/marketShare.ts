@@ -0,0 +1,57 @@
+/**
+ * 竞品分组内的份额计算：每个账号占分组合计的比例
+ * 份额为 0-1 之间的小数，份额变化为两者之差（百分点 / 100）
+ */
+
+export const SHARE_FIELDS = ['阅读总数', '头条文章阅读量', '转发总量'] as const;
+
+export type ShareField = typeof SHARE_FIELDS[number];
+
+export type ShareValues = Record<ShareField, number | null>;
+
+// 字段为 null 表示该账号这一期缺少该指标
+export type ShareInput = Record<ShareField, number | null>;
+
+export function emptyShares(): ShareValues {
+  return { 阅读总数: null, 头条文章阅读量: null, 转发总量: null };
+}
+
+/**
+ * 计算每个账号的份额，values 中为 null 的账号（该期无数据）或为 null 的字段不计入合计，份额也为 null
+ * 分组合计为 0 时份额为 null
+ */
+export function computeShares(values: (ShareInput | null)[]): ShareValues[] {
+  const totals = emptyShares();
+  SHARE_FIELDS.forEach(field => {
+    totals[field] = values.reduce<number>((sum, value) => sum + (value?.[field] ?? 0), 0);
+  });
+
+  return values.map(value => {
+    const shares = emptyShares();
+    if (!value) {
+      return shares;
+    }
+    SHARE_FIELDS.forEach(field => {
+      const total = totals[field];
+      const fieldValue = value[field];
+      shares[field] = total && fieldValue !== null ? fieldValue / total : null;
+    });
+    return shares;
+  });
+}
+
+/**
+ * 计算份额变化（本期份额 - 上期份额），任一期无份额时为 null
+ */
+export function shareChange(current: ShareValues, previous?: ShareValues | null): ShareValues {
+  const change = emptyShares();
+  if (!previous) {
+    return change;
+  }
+  SHARE_FIELDS.forEach(field => {
+    const currentShare = current[field];
+    const previousShare = previous[field];
+    change[field] = currentShare !== null && previousShare !== null ? currentShare - previousShare : null;
+  });
+  return change;
+}
@@ -0,0 +1,144 @@
+import { AccountData } from './workbookParser';
+
+/**
+ * 看板可显示的指标定义
+ * 每个指标对应一个来源字段；有供应商增量字段时直接使用，
+ * 没有增量字段时根据上个周期的数据计算差值
+ */
+
+// number: 超过 1 万显示为"x.xw"；integer: 千分位整数；decimal: 保留两位小数；percent: 百分比
+export type MetricFormat = 'number' | 'integer' | 'decimal' | 'percent';
+
+export interface MetricDefinition {
+  // 唯一标识，用于 URL、预设及导出
+  key: string;
+  label: string;
+  field: string;
+  // 供应商预先计算的增量字段，为空时根据上个周期数据计算
+  incrementField?: string;
+  unit: string;
+  format: MetricFormat;
+  // 排名类指标：数值越小越好，增量为上期排名 - 本期排名
+  isRank?: boolean;
+}
+
+export interface MetricPreset {
+  id: string;
+  name: string;
+  metrics: string[];
+}
+
+export const METRICS: MetricDefinition[] = [
+  { key: '发文数', label: '发文数', field: '文章总数', incrementField: '文章总增量', unit: '篇', format: 'number' },
+  { key: '总阅读数', label: '总阅读数（万）', field: '阅读总数', incrementField: '阅读总数增量', unit: '次', format: 'number' },
+  { key: '头条阅读', label: '头条阅读（万）', field: '头条文章阅读量', incrementField: '头条文章阅读增量', unit: '次', format: 'number' },
+  { key: '10万+', label: '10万+', field: '超10W文章数', incrementField: '超10W文章数增量', unit: '篇', format: 'number' },
+  { key: '平均阅读', label: '平均阅读', field: '平均阅读数', incrementField: '平均阅读数增量', unit: '次', format: 'number' },
+  { key: '总在看数', label: '总在看数', field: '推荐总数', incrementField: '推荐总数增量', unit: '次', format: 'number' },
+  { key: '总点赞数', label: '总点赞数', field: '点赞总数', incrementField: '点赞数增量', unit: '次', format: 'number' },
+  { key: '总转发数', label: '总转发数', field: '转发总量', unit: '次', format: 'number' },
+  { key: '总排名', label: '总排名', field: '总排名', incrementField: '总排名变化', unit: '名', format: 'integer', isRank: true },
+  { key: 'WCI', label: 'WCI', field: 'WCI', incrementField: 'WCI增量', unit: '', format: 'decimal' },
+  { key: '发布次数', label: '发布次数', field: '发布次数', incrementField: '发布次数增量', unit: '次', format: 'number' },
+  { key: '平均在看数', label: '平均在看数', field: '平均推荐数', incrementField: '平均推荐数增量', unit: '次', format: 'number' },
+  { key: '平均点赞数', label: '平均点赞数', field: '平均点赞数', incrementField: '平均点赞数增量', unit: '次', format: 'number' },
+  { key: '在看率', label: '在看率', field: '推荐率', unit: '%', format: 'percent' },
+  { key: '头条在看数', label: '头条在看数', field: '头条文章推荐数', unit: '次', format: 'number' },
+  { key: '头条点赞数', label: '头条点赞数', field: '头条文章点赞总数', unit: '次', format: 'number' },
+  { key: '头条转发数', label: '头条转发数', field: '头条转发总数', unit: '次', format: 'number' },
+  { key: '最大阅读数', label: '最大阅读数', field: '最大阅读数', unit: '次', format: 'number' },
+  { key: '最大在看数', label: '最大在看数', field: '最大推荐数', unit: '次', format: 'number' },
+  { key: '最大点赞数', label: '最大点赞数', field: '最大点赞数', unit: '次', format: 'number' },
+  { key: '最大转发数', label: '最大转发数', field: '最大转发数', unit: '次', format: 'number' },
+  // 派生比率（见 derivedMetrics.ts），增量按上个周期的比率计算
+  { key: '点赞率', label: '点赞率', field: '点赞率', unit: '%', format: 'percent' },
+  { key: '转发率', label: '转发率', field: '转发率', unit: '%', format: 'percent' },
+  { key: '头条阅读占比', label: '头条阅读占比', field: '头条阅读占比', unit: '%', format: 'percent' },
+  { key: '10万+命中率', label: '10万+命中率', field: '10万+命中率', unit: '%', format: 'percent' },
+  { key: '单次发布阅读', label: '单次发布阅读', field: '单次发布阅读', unit: '次', format: 'number' },
+];
+
+// 默认显示的列（与原先固定的看板列一致）
+export const DEFAULT_METRIC_KEYS = [
+  '发文数',
+  '总阅读数',
+  '头条阅读',
+  '10万+',
+  '平均阅读',
+  '总在看数',
+  '总点赞数',
+  '总转发数',
+  '总排名',
+];
+
+export const BUILTIN_PRESETS: MetricPreset[] = [
+  { id: 'default', name: '默认', metrics: DEFAULT_METRIC_KEYS },
+  { id: 'reading', name: '阅读', metrics: ['发文数', '总阅读数', '头条阅读', '10万+', '平均阅读', '最大阅读数', 'WCI', '总排名'] },
+  { id: 'engagement', name: '互动', metrics: ['总在看数', '平均在看数', '在看率', '总点赞数', '平均点赞数', '总转发数', '头条转发数', 'WCI'] },
+  { id: 'ratios', name: '比率', metrics: ['在看率', '点赞率', '转发率', '头条阅读占比', '10万+命中率', '单次发布阅读', '总排名'] },
+  { id: 'all', name: '全部', metrics: METRICS.map(metric => metric.key) },
+];
+
+export function findMetric(key: string): MetricDefinition | undefined {
+  return METRICS.find(metric => metric.key === key);
+}
+
+/**
+ * 按注册表顺序返回选中的指标，忽略未知的 key；未选择时使用默认列
+ */
+export function resolveMetrics(keys?: string[] | null): MetricDefinition[] {
+  const selected = keys && keys.length > 0 ? keys : DEFAULT_METRIC_KEYS;
+  return METRICS.filter(metric => selected.includes(metric.key));
+}
+
+/**
+ * 读取指标数值，无数据时返回 null
+ */
+export function getMetricValue(metric: MetricDefinition, account: AccountData): number | null {
+  const value = account[metric.field];
+  return typeof value === 'number' ? value : null;
+}
+
+/**
+ * 读取指标增量：优先使用供应商增量字段，否则与上个周期数据比较
+ * 没有上个周期数据或任一方无数据时返回 null
+ */
+export function getMetricIncrement(
+  metric: MetricDefinition,
+  account: AccountData,
+  previousAccount?: AccountData
+): number | null {
+  if (metric.incrementField) {
+    const increment = account[metric.incrementField];
+    return typeof increment === 'number' ? increment : null;
+  }
+
+  if (!previousAccount) {
+    return null;
+  }
+  const current = getMetricValue(metric, account);
+  const previous = getMetricValue(metric, previousAccount);
+  if (current === null || previous === null) {
+    return null;
+  }
+  return metric.isRank ? previous - current : current - previous;
+}
+
+/**
+ * 按指标的格式显示数值
+ */
+export function formatMetricValue(metric: MetricDefinition, value: number): string {
+  switch (metric.format) {
+    case 'integer':
+      return Math.round(value).toLocaleString('zh-CN');
+    case 'decimal':
+      return value.toLocaleString('zh-CN', { maximumFractionDigits: 2 });
+    case 'percent':
+      return `${(value * 100).toFixed(2)}%`;
+    default:
+      if (Math.abs(value) >= 10000) {
+        return (value / 10000).toFixed(1) + 'w';
+      }
+      return value.toLocaleString('zh-CN');
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * 生成只包含图片的 PDF：每页一张 JPEG 图片，按比例缩放后居中放在 A4 页面上
+ * 图片较宽时使用横向页面；只依赖 PDF 原生支持的 DCTDecode（JPEG），不需要额外的库
+ * 较高的图片需要由调用方按 pageSliceHeight 分成多张，每张一页
+ */
+
+export interface PdfImage {
+  // JPEG 文件内容
+  jpeg: Uint8Array;
+  // 图片像素尺寸
+  width: number;
+  height: number;
+  // 页面方向，不指定时图片较宽则使用横向页面
+  landscape?: boolean;
+}
+
+// A4 尺寸及页边距（单位：pt）
+const A4_SHORT = 595.28;
+const A4_LONG = 841.89;
+const PAGE_MARGIN = 24;
+
+/**
+ * 图片按页面可用宽度缩放时，一页能容纳的图片高度（像素）
+ */
+export function pageSliceHeight(width: number, landscape = false): number {
+  const pageWidth = landscape ? A4_LONG : A4_SHORT;
+  const pageHeight = landscape ? A4_SHORT : A4_LONG;
+  return Math.floor(width * (pageHeight - PAGE_MARGIN * 2) / (pageWidth - PAGE_MARGIN * 2));
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+export function buildPdf(images: PdfImage[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // 对象编号：1 目录，2 页面树，之后每页依次为页面、图片、内容流
+  const pageIds = images.map((_, index) => 3 + index * 3);
+
+  write('%PDF-1.4\n');
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${images.length} >>\nendobj\n`);
+
+  images.forEach((image, index) => {
+    const pageId = pageIds[index];
+    const landscape = image.landscape ?? image.width > image.height;
+    const pageWidth = landscape ? A4_LONG : A4_SHORT;
+    const pageHeight = landscape ? A4_SHORT : A4_LONG;
+    const scale = Math.min(
+      (pageWidth - PAGE_MARGIN * 2) / image.width,
+      (pageHeight - PAGE_MARGIN * 2) / image.height
+    );
+    const drawWidth = image.width * scale;
+    const drawHeight = image.height * scale;
+    // 水平居中，靠页面顶部
+    const x = (pageWidth - drawWidth) / 2;
+    const y = pageHeight - PAGE_MARGIN - drawHeight;
+    const content = `q ${formatNumber(drawWidth)} 0 0 ${formatNumber(drawHeight)} ${formatNumber(x)} ${formatNumber(y)} cm /Im0 Do Q`;
+
+    beginObject(pageId);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(pageWidth)} ${formatNumber(pageHeight)}]`
+      + ` /Resources << /XObject << /Im0 ${pageId + 1} 0 R >> >> /Contents ${pageId + 2} 0 R >>\nendobj\n`);
+    beginObject(pageId + 1);
+    write(`<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height}`
+      + ` /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>\nstream\n`);
+    write(image.jpeg);
+    write('\nendstream\nendobj\n');
+    beginObject(pageId + 2);
+    write(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}\nendstream\nendobj\n`);
+  });
+
+  const objectCount = 3 + images.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const result = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, position);
+    position += chunk.length;
+  });
+  return result;
+}
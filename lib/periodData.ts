@@ -0,0 +1,54 @@
+import { listMonths, readMonthData, ReadMonthOptions } from './dataStore';
+import { AccountResolver, assignAccountKeys } from './accountIdentity';
+import { monthsInPeriod, parsePeriod, Period } from './periods';
+import { MonthAccounts, PeriodRollup, rollupMonths } from './rollup';
+
+export type PeriodDataResult =
+  | { ok: true; period: Period; months: string[]; rollup: PeriodRollup }
+  | { ok: false; status: number; error: string };
+
+export type MonthAccountsResult =
+  | { ok: true; data: MonthAccounts[] }
+  | { ok: false; status: number; error: string };
+
+/**
+ * 读取多个月份的数据，并按别名表计算账号标识
+ * 默认读取各月份的最新数据，options.usePin 为 true 时使用固定的版本
+ */
+export function loadMonthAccounts(
+  months: string[],
+  resolver: AccountResolver,
+  options: Pick<ReadMonthOptions, 'usePin'> = {}
+): MonthAccountsResult {
+  const data: MonthAccounts[] = [];
+  for (const month of months) {
+    const result = readMonthData(month, options);
+    if (!result.ok) {
+      return { ok: false, status: result.status, error: `${month}: ${result.error}` };
+    }
+    data.push({ month, accounts: assignAccountKeys(result.sheet.accounts, resolver) });
+  }
+  return { ok: true, data };
+}
+
+/**
+ * 读取周期内所有月份的数据并按账号汇总
+ */
+export function loadPeriodData(spec: string, resolver: AccountResolver): PeriodDataResult {
+  const period = parsePeriod(spec);
+  if (!period) {
+    return { ok: false, status: 400, error: `周期格式不正确: ${spec}，支持 202511、2025Q3、2025H1、202501-202503` };
+  }
+
+  const months = monthsInPeriod(period, listMonths());
+  if (months.length === 0) {
+    return { ok: false, status: 404, error: `${period.label}没有数据` };
+  }
+
+  const loaded = loadMonthAccounts(months, resolver);
+  if (!loaded.ok) {
+    return loaded;
+  }
+
+  return { ok: true, period, months, rollup: rollupMonths(loaded.data) };
+}
@@ -0,0 +1,150 @@
+/**
+ * 月份代码（YYYYMM）相关的工具函数
+ */
+
+export function getYearOfMonth(month: string): string {
+  return month.slice(0, 4);
+}
+
+export function getMonthNumber(month: string): number {
+  return parseInt(month.slice(4, 6), 10);
+}
+
+/**
+ * 月份代码加减若干个自然月，如 shiftMonth('202501', -1) → '202412'
+ */
+export function shiftMonth(month: string, offset: number): string {
+  const index = parseInt(getYearOfMonth(month), 10) * 12 + getMonthNumber(month) - 1 + offset;
+  return `${Math.floor(index / 12)}${(index % 12 + 1).toString().padStart(2, '0')}`;
+}
+
+/**
+ * 上一个自然月的月份代码（不论该月是否有数据）
+ */
+export function previousMonthOf(month: string): string {
+  return shiftMonth(month, -1);
+}
+
+/**
+ * 从月份列表中提取年份（升序，去重）
+ */
+export function listYears(months: string[]): string[] {
+  return Array.from(new Set(months.map(getYearOfMonth))).sort();
+}
+
+/**
+ * 筛选某一年的月份，可通过 throughMonth 截止到某个月（含）
+ */
+export function filterMonthsByYear(months: string[], year: string, throughMonth?: string): string[] {
+  return months
+    .filter(month => getYearOfMonth(month) === year)
+    .filter(month => !throughMonth || month <= throughMonth)
+    .sort();
+}
+
+/**
+ * 统计周期：单月（202511）、季度（2025Q3）、半年（2025H1）或自定义范围（202501-202503）
+ */
+export type PeriodType = 'month' | 'quarter' | 'half' | 'range';
+
+export interface Period {
+  spec: string;
+  type: PeriodType;
+  label: string;
+  start: string;
+  end: string;
+}
+
+function toMonthCode(year: number, month: number): string {
+  return `${year}${month.toString().padStart(2, '0')}`;
+}
+
+function isValidMonthCode(month: string): boolean {
+  if (!/^\d{6}$/.test(month)) {
+    return false;
+  }
+  const monthNumber = getMonthNumber(month);
+  return monthNumber >= 1 && monthNumber <= 12;
+}
+
+function formatMonthLabel(month: string): string {
+  return `${getYearOfMonth(month)}年${getMonthNumber(month)}月`;
+}
+
+/**
+ * 解析周期字符串，格式不正确时返回 null
+ */
+export function parsePeriod(spec: string): Period | null {
+  const value = (spec || '').trim().toUpperCase();
+
+  if (isValidMonthCode(value)) {
+    return { spec: value, type: 'month', label: formatMonthLabel(value), start: value, end: value };
+  }
+
+  const quarter = value.match(/^(\d{4})Q([1-4])$/);
+  if (quarter) {
+    const year = parseInt(quarter[1], 10);
+    const index = parseInt(quarter[2], 10);
+    return {
+      spec: value,
+      type: 'quarter',
+      label: `${year}年Q${index}`,
+      start: toMonthCode(year, index * 3 - 2),
+      end: toMonthCode(year, index * 3),
+    };
+  }
+
+  const half = value.match(/^(\d{4})H([12])$/);
+  if (half) {
+    const year = parseInt(half[1], 10);
+    const index = parseInt(half[2], 10);
+    return {
+      spec: value,
+      type: 'half',
+      label: `${year}年${index === 1 ? '上半年' : '下半年'}`,
+      start: toMonthCode(year, index === 1 ? 1 : 7),
+      end: toMonthCode(year, index === 1 ? 6 : 12),
+    };
+  }
+
+  const range = value.match(/^(\d{6})-(\d{6})$/);
+  if (range && isValidMonthCode(range[1]) && isValidMonthCode(range[2]) && range[1] <= range[2]) {
+    return {
+      spec: value,
+      type: 'range',
+      label: `${formatMonthLabel(range[1])}-${formatMonthLabel(range[2])}`,
+      start: range[1],
+      end: range[2],
+    };
+  }
+
+  return null;
+}
+
+/**
+ * 周期内已有数据的月份（升序）
+ */
+export function monthsInPeriod(period: Period, availableMonths: string[]): string[] {
+  return availableMonths
+    .filter(month => month >= period.start && month <= period.end)
+    .sort();
+}
+
+/**
+ * 根据已有月份生成可选的周期（月、季度、半年），最新的在前
+ */
+export function listPeriodOptions(availableMonths: string[]): Period[] {
+  const specs = new Set<string>();
+  availableMonths.forEach(month => {
+    const year = getYearOfMonth(month);
+    const monthNumber = getMonthNumber(month);
+    specs.add(month);
+    specs.add(`${year}Q${Math.ceil(monthNumber / 3)}`);
+    specs.add(`${year}H${monthNumber <= 6 ? 1 : 2}`);
+  });
+
+  const order: Record<PeriodType, number> = { month: 0, quarter: 1, half: 2, range: 3 };
+  return Array.from(specs)
+    .map(spec => parsePeriod(spec)!)
+    .sort((a, b) => order[a.type] - order[b.type] || b.start.localeCompare(a.start));
+}
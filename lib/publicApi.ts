@@ -0,0 +1,343 @@
+import { AccountData } from './workbookParser';
+import { RANKING_SHEET_SCHEMA } from './sheetSchema';
+import { DERIVED_FIELDS } from './derivedMetrics';
+import { AccountResolver, matchesAccountName } from './accountIdentity';
+
+/**
+ * 对外只读接口（/api/v1/*）的参数解析、查询及响应格式说明
+ * 错误统一返回 { apiVersion, error: { code, message, details? } }，调用方按 code 判断错误类型
+ */
+
+export const API_VERSION = 'v1';
+
+export type ApiErrorCode =
+  | 'INVALID_PARAMETER'
+  | 'UNKNOWN_FIELD'
+  | 'MONTH_NOT_FOUND'
+  | 'DATA_UNAVAILABLE'
+  | 'CONFIG_ERROR'
+  | 'INTERNAL_ERROR';
+
+export interface ApiError {
+  code: ApiErrorCode;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+// 各错误码对应的 HTTP 状态码
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  INVALID_PARAMETER: 400,
+  UNKNOWN_FIELD: 400,
+  MONTH_NOT_FOUND: 404,
+  DATA_UNAVAILABLE: 422,
+  CONFIG_ERROR: 500,
+  INTERNAL_ERROR: 500,
+};
+
+const API_ERROR_DESCRIPTIONS: Record<ApiErrorCode, string> = {
+  INVALID_PARAMETER: '查询参数格式不正确',
+  UNKNOWN_FIELD: 'fields 或 sort 中包含不存在的字段',
+  MONTH_NOT_FOUND: '没有该月份的数据',
+  DATA_UNAVAILABLE: '该月份的数据文件无法读取或解析',
+  CONFIG_ERROR: '服务端配置文件有误',
+  INTERNAL_ERROR: '服务器内部错误',
+};
+
+export type FieldType = 'string' | 'number';
+
+export interface FieldDefinition {
+  name: string;
+  type: FieldType;
+  // 数值字段在没有数据时为 null
+  nullable: boolean;
+  description: string;
+}
+
+export const DEFAULT_LIMIT = 50;
+export const MAX_LIMIT = 500;
+
+// 可查询的账号字段：账号标识、工作表中的标准列、派生比率及来源信息
+export const ACCOUNT_FIELDS: FieldDefinition[] = [
+  { name: 'accountKey', type: 'string', nullable: false, description: '账号唯一标识，用于匹配不同月份的数据' },
+  ...RANKING_SHEET_SCHEMA.map(spec => ({
+    name: spec.name,
+    type: spec.type === 'text' ? 'string' as const : 'number' as const,
+    nullable: spec.type === 'number',
+    description: spec.type === 'text' ? '账号名称' : `榜单列"${spec.name}"`,
+  })),
+  ...Object.entries(DERIVED_FIELDS).map(([name, ratio]) => ({
+    name,
+    type: 'number' as const,
+    nullable: true,
+    description: `派生比率：${ratio.numerator} / ${ratio.denominator}`,
+  })),
+  { name: 'sourceFile', type: 'string', nullable: false, description: '数据来源文件' },
+  { name: 'sourceSheet', type: 'string', nullable: false, description: '数据来源工作表' },
+];
+
+const FIELD_NAMES = ACCOUNT_FIELDS.map(field => field.name);
+
+const NUMERIC_COLUMNS = RANKING_SHEET_SCHEMA.filter(spec => spec.type === 'number').map(spec => spec.name);
+
+export interface SortKey {
+  field: string;
+  descending: boolean;
+}
+
+export interface AccountQuery {
+  month: string | null;
+  accounts: string[];
+  fields: string[];
+  sort: SortKey[];
+  limit: number;
+  offset: number;
+  // 只返回总排名在前 minRank 名以内（含）的账号
+  minRank: number | null;
+}
+
+export type AccountQueryResult =
+  | { ok: true; query: AccountQuery }
+  | { ok: false; error: ApiError };
+
+function invalidParameter(name: string, message: string): AccountQueryResult {
+  return { ok: false, error: { code: 'INVALID_PARAMETER', message, details: { parameter: name } } };
+}
+
+// 逗号分隔的列表，忽略空项
+function parseList(raw: string | null): string[] {
+  return (raw || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function parseInteger(raw: string | null, min: number): number | null | undefined {
+  if (raw === null || raw.trim() === '') {
+    return null;
+  }
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= min ? value : undefined;
+}
+
+/**
+ * 解析 /api/v1/accounts 的查询参数
+ * month、accounts、fields、sort（字段名前加 - 表示降序，多个字段用逗号分隔）、limit、offset、minRank
+ */
+export function parseAccountQuery(searchParams: URLSearchParams): AccountQueryResult {
+  const month = searchParams.get('month');
+  if (month !== null && !/^\d{6}$/.test(month)) {
+    return invalidParameter('month', `month 应为 YYYYMM 格式: ${month}`);
+  }
+
+  const fields = parseList(searchParams.get('fields'));
+  const sort = parseList(searchParams.get('sort')).map(item => ({
+    field: item.replace(/^[-+]/, ''),
+    descending: item.startsWith('-'),
+  }));
+  const unknown = [...fields, ...sort.map(key => key.field)].filter(field => !FIELD_NAMES.includes(field));
+  if (unknown.length > 0) {
+    return {
+      ok: false,
+      error: {
+        code: 'UNKNOWN_FIELD',
+        message: `不存在的字段: ${Array.from(new Set(unknown)).join('、')}`,
+        details: { unknown: Array.from(new Set(unknown)), available: FIELD_NAMES },
+      },
+    };
+  }
+
+  const limit = parseInteger(searchParams.get('limit'), 1);
+  if (limit === undefined || (limit !== null && limit > MAX_LIMIT)) {
+    return invalidParameter('limit', `limit 应为 1 到 ${MAX_LIMIT} 之间的整数: ${searchParams.get('limit')}`);
+  }
+  const offset = parseInteger(searchParams.get('offset'), 0);
+  if (offset === undefined) {
+    return invalidParameter('offset', `offset 应为不小于 0 的整数: ${searchParams.get('offset')}`);
+  }
+  const minRank = parseInteger(searchParams.get('minRank'), 1);
+  if (minRank === undefined) {
+    return invalidParameter('minRank', `minRank 应为正整数: ${searchParams.get('minRank')}`);
+  }
+
+  return {
+    ok: true,
+    query: {
+      month,
+      accounts: parseList(searchParams.get('accounts')),
+      fields: fields.length > 0 ? Array.from(new Set(fields)) : FIELD_NAMES,
+      sort,
+      limit: limit ?? DEFAULT_LIMIT,
+      offset: offset ?? 0,
+      minRank,
+    },
+  };
+}
+
+// 比较两个字段值，没有数据的排在最后（与升降序无关）
+function compareValues(a: string | number | null | undefined, b: string | number | null | undefined, descending: boolean): number {
+  const aEmpty = a === null || a === undefined || a === '';
+  const bEmpty = b === null || b === undefined || b === '';
+  if (aEmpty || bEmpty) {
+    return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+  }
+  const result = typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), 'zh-CN');
+  return descending ? -result : result;
+}
+
+export interface AccountQueryPage {
+  total: number;
+  items: Record<string, string | number | null>[];
+  // accounts 参数中没有匹配到任何账号的名称
+  unmatchedAccounts: string[];
+}
+
+/**
+ * 按查询条件筛选、排序、分页并只保留选中的字段
+ * 不含任何数值的行（如文件末尾的导出记录说明）不会返回
+ */
+export function queryAccounts(accounts: AccountData[], query: AccountQuery, resolver: AccountResolver): AccountQueryPage {
+  let rows = accounts.filter(account => NUMERIC_COLUMNS.some(column => account[column] !== null && account[column] !== undefined));
+
+  const unmatchedAccounts: string[] = [];
+  if (query.accounts.length > 0) {
+    query.accounts.forEach(name => {
+      if (!rows.some(account => matchesAccountName(account, name, resolver))) {
+        unmatchedAccounts.push(name);
+      }
+    });
+    rows = rows.filter(account => query.accounts.some(name => matchesAccountName(account, name, resolver)));
+  }
+
+  if (query.minRank !== null) {
+    rows = rows.filter(account => account.总排名 !== null && account.总排名 <= query.minRank!);
+  }
+
+  if (query.sort.length > 0) {
+    rows = [...rows].sort((a, b) => {
+      for (const key of query.sort) {
+        const result = compareValues(a[key.field], b[key.field], key.descending);
+        if (result !== 0) {
+          return result;
+        }
+      }
+      return 0;
+    });
+  }
+
+  return {
+    total: rows.length,
+    items: rows.slice(query.offset, query.offset + query.limit).map(account => {
+      const item: Record<string, string | number | null> = {};
+      query.fields.forEach(field => {
+        item[field] = account[field] ?? null;
+      });
+      return item;
+    }),
+    unmatchedAccounts,
+  };
+}
+
+function fieldSchema(field: FieldDefinition) {
+  return {
+    type: field.nullable ? [field.type, 'null'] : field.type,
+    description: field.description,
+  };
+}
+
+/**
+ * 对外接口的说明：各接口的参数、响应的 JSON Schema 及错误码
+ */
+export function buildApiSchema() {
+  const errorSchema = {
+    type: 'object',
+    required: ['apiVersion', 'error'],
+    properties: {
+      apiVersion: { const: API_VERSION },
+      error: {
+        type: 'object',
+        required: ['code', 'message'],
+        properties: {
+          code: { enum: Object.keys(API_ERROR_STATUS) },
+          message: { type: 'string' },
+          details: { type: 'object' },
+        },
+      },
+    },
+  };
+
+  return {
+    apiVersion: API_VERSION,
+    endpoints: {
+      'GET /api/v1/months': {
+        description: '可用月份列表（升序）及最新月份',
+        response: {
+          $schema: 'https://json-schema.org/draft/2020-12/schema',
+          type: 'object',
+          required: ['apiVersion', 'months', 'latest'],
+          properties: {
+            apiVersion: { const: API_VERSION },
+            months: { type: 'array', items: { type: 'string', pattern: '^\\d{6}$' } },
+            latest: { type: ['string', 'null'] },
+          },
+        },
+      },
+      'GET /api/v1/accounts': {
+        description: '某个月份的账号数据，支持筛选、选择字段、排序和分页',
+        parameters: {
+          month: { type: 'string', pattern: '^\\d{6}$', description: '月份，默认最新月份' },
+          accounts: { type: 'string', description: '账号名称，逗号分隔；公众号名称、帐号名或别名均可' },
+          fields: { type: 'string', description: '返回的字段，逗号分隔，默认全部字段' },
+          sort: { type: 'string', description: '排序字段，逗号分隔，字段名前加 - 表示降序；无数据的值排在最后' },
+          limit: { type: 'integer', minimum: 1, maximum: MAX_LIMIT, default: DEFAULT_LIMIT },
+          offset: { type: 'integer', minimum: 0, default: 0 },
+          minRank: { type: 'integer', minimum: 1, description: '只返回总排名在前 N 名以内（含）的账号' },
+        },
+        response: {
+          $schema: 'https://json-schema.org/draft/2020-12/schema',
+          type: 'object',
+          required: ['apiVersion', 'month', 'version', 'total', 'limit', 'offset', 'fields', 'items'],
+          properties: {
+            apiVersion: { const: API_VERSION },
+            month: { type: 'string', pattern: '^\\d{6}$' },
+            version: { type: 'string', description: '数据版本号，可用于 /api/data?version= 复现同一份数据' },
+            total: { type: 'integer', description: '符合条件的账号数（分页前）' },
+            limit: { type: 'integer' },
+            offset: { type: 'integer' },
+            fields: { type: 'array', items: { type: 'string' } },
+            unmatchedAccounts: { type: 'array', items: { type: 'string' } },
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                description: '只包含 fields 中选择的字段',
+                properties: Object.fromEntries(ACCOUNT_FIELDS.map(field => [field.name, fieldSchema(field)])),
+              },
+            },
+          },
+        },
+      },
+    },
+    fields: ACCOUNT_FIELDS,
+    errors: {
+      schema: errorSchema,
+      codes: (Object.keys(API_ERROR_STATUS) as ApiErrorCode[]).map(code => ({
+        code,
+        status: API_ERROR_STATUS[code],
+        description: API_ERROR_DESCRIPTIONS[code],
+      })),
+    },
+  };
+}
+
+export function errorBody(error: ApiError) {
+  return { apiVersion: API_VERSION, error };
+}
+
+/**
+ * 将 readMonthData 等内部接口的错误转换为对外错误码
+ */
+export function toApiError(status: number, message: string): ApiError {
+  if (status === 404) {
+    return { code: 'MONTH_NOT_FOUND', message };
+  }
+  return status >= 500 ? { code: 'INTERNAL_ERROR', message } : { code: 'DATA_UNAVAILABLE', message };
+}
@@ -0,0 +1,111 @@
+import { AccountData } from './workbookParser';
+import { INCREMENT_COLUMNS, RANK_COLUMNS } from './sheetSchema';
+
+/**
+ * 核对供应商预先计算的增量列（*增量、总排名变化）与相邻两个月份数据实际相减的结果
+ * 榜单中的大数值以"1176w+"等形式导出，解析后只精确到万位甚至十万位，
+ * 因此按两个月数值的显示精度计算允许的误差，超出误差才视为不一致
+ */
+
+export interface IncrementMismatch {
+  accountKey: string;
+  accountName: string;
+  field: string;
+  incrementField: string;
+  current: number;
+  previous: number;
+  vendor: number;
+  computed: number;
+  // 供应商增量 - 计算增量
+  difference: number;
+  tolerance: number;
+}
+
+export interface ReconciliationResult {
+  // 两个月都有数据、参与核对的账号数
+  accounts: number;
+  // 参与核对的增量单元格数
+  checked: number;
+  // 有数值但供应商增量为空的单元格数
+  missingVendor: number;
+  mismatches: IncrementMismatch[];
+}
+
+// 浮点数相减的误差
+const EPSILON = 1e-9;
+
+/**
+ * 推断数值的显示精度：小数按两位小数，1 万以下的整数按个位，
+ * 1 万以上按末尾 0 的个数（最多到十万位）
+ */
+export function displayPrecision(value: number): number {
+  if (!Number.isInteger(value)) {
+    return 0.01;
+  }
+  if (Math.abs(value) < 10000) {
+    return 1;
+  }
+  let precision = 1;
+  while (precision < 100000 && value % (precision * 10) === 0) {
+    precision *= 10;
+  }
+  return precision;
+}
+
+/**
+ * 根据上个月数据计算增量，排名类为"上期 - 本期"
+ */
+export function computeIncrement(field: string, current: number, previous: number): number {
+  return RANK_COLUMNS.includes(field) ? previous - current : current - previous;
+}
+
+/**
+ * 核对一个月份的供应商增量，previous 为上一个月份的数据
+ */
+export function reconcileMonth(current: AccountData[], previous: AccountData[]): ReconciliationResult {
+  const result: ReconciliationResult = { accounts: 0, checked: 0, missingVendor: 0, mismatches: [] };
+  const previousByKey = new Map(previous.map(account => [account.accountKey, account]));
+
+  current.forEach(account => {
+    const previousAccount = previousByKey.get(account.accountKey);
+    if (!previousAccount) {
+      return;
+    }
+    result.accounts++;
+
+    Object.keys(INCREMENT_COLUMNS).forEach(field => {
+      const incrementField = INCREMENT_COLUMNS[field];
+      const currentValue = account[field];
+      const previousValue = previousAccount[field];
+      if (typeof currentValue !== 'number' || typeof previousValue !== 'number') {
+        return;
+      }
+      const vendor = account[incrementField];
+      if (typeof vendor !== 'number') {
+        result.missingVendor++;
+        return;
+      }
+      result.checked++;
+
+      const computed = computeIncrement(field, currentValue, previousValue);
+      const tolerance = (displayPrecision(currentValue) + displayPrecision(previousValue)) / 2;
+      if (Math.abs(vendor - computed) <= tolerance + EPSILON) {
+        return;
+      }
+      result.mismatches.push({
+        accountKey: account.accountKey,
+        accountName: account.公众号 || account.帐号名 || account.accountKey,
+        field,
+        incrementField,
+        current: currentValue,
+        previous: previousValue,
+        vendor,
+        computed,
+        difference: vendor - computed,
+        tolerance,
+      });
+    });
+  });
+
+  return result;
+}
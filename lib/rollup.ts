@@ -0,0 +1,165 @@
+import { AccountData } from './workbookParser';
+import { INCREMENT_COLUMNS, RANK_COLUMNS } from './sheetSchema';
+import { applyDerivedFields } from './derivedMetrics';
+import { computeIncrement } from './reconciliation';
+
+/**
+ * 多个月份数据的汇总规则
+ * - 累加字段直接求和
+ * - 最大值字段取各月最大值
+ * - 平均值、推荐率及派生比率等字段由汇总后的分子分母重新计算，不能直接相加
+ * - WCI 和总排名取各月平均值
+ * - 供应商预先计算的增量字段在汇总后没有意义，置为 null
+ */
+export const SUM_FIELDS = [
+  '文章总数',
+  '超10W文章数',
+  '阅读总数',
+  '推荐总数',
+  '发布次数',
+  '头条文章阅读量',
+  '头条文章推荐数',
+  '点赞总数',
+  '头条文章点赞总数',
+  '转发总量',
+  '头条转发总数',
+];
+
+export const MAX_FIELDS = ['最大阅读数', '最大推荐数', '最大点赞数', '最大转发数'];
+
+export const RATIO_FIELDS: Record<string, { numerator: string; denominator: string }> = {
+  平均阅读数: { numerator: '阅读总数', denominator: '文章总数' },
+  平均推荐数: { numerator: '推荐总数', denominator: '文章总数' },
+  平均点赞数: { numerator: '点赞总数', denominator: '文章总数' },
+  推荐率: { numerator: '推荐总数', denominator: '阅读总数' },
+};
+
+export const MEAN_FIELDS = ['WCI', '总排名'];
+
+export interface MonthAccounts {
+  month: string;
+  accounts: AccountData[];
+}
+
+export interface PeriodRollup {
+  accounts: AccountData[];
+  // 每个账号（accountKey）在周期内有数据的月份
+  coverage: Record<string, string[]>;
+}
+
+function numericValues(rows: AccountData[], field: string): number[] {
+  return rows
+    .map(row => row[field])
+    .filter((value): value is number => typeof value === 'number');
+}
+
+function sum(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((total, value) => total + value, 0) : null;
+}
+
+function ratio(numerator: number | null, denominator: number | null): number | null {
+  if (numerator === null || denominator === null || denominator === 0) {
+    return null;
+  }
+  return numerator / denominator;
+}
+
+/**
+ * 汇总同一账号多个月份的数据（rows 需按月份升序）
+ */
+export function rollupAccountRows(rows: AccountData[]): AccountData {
+  const latest = rows[rows.length - 1];
+  const result: Record<string, string | number | null> = {
+    公众号: latest.公众号,
+    帐号名: latest.帐号名,
+    accountKey: latest.accountKey,
+  };
+
+  SUM_FIELDS.forEach(field => {
+    result[field] = sum(numericValues(rows, field));
+  });
+
+  MAX_FIELDS.forEach(field => {
+    const values = numericValues(rows, field);
+    result[field] = values.length > 0 ? Math.max(...values) : null;
+  });
+
+  Object.keys(RATIO_FIELDS).forEach(field => {
+    const { numerator, denominator } = RATIO_FIELDS[field];
+    result[field] = ratio(result[numerator] as number | null, result[denominator] as number | null);
+  });
+
+  MEAN_FIELDS.forEach(field => {
+    const values = numericValues(rows, field);
+    const total = sum(values);
+    const mean = total === null ? null : total / values.length;
+    // 平均排名取整，保持与月度排名一致的显示方式
+    result[field] = mean !== null && RANK_COLUMNS.includes(field) ? Math.round(mean) : mean;
+  });
+
+  applyDerivedFields(result);
+
+  return clearIncrements(result as AccountData);
+}
+
+/**
+ * 清空供应商预先计算的增量字段（汇总后这些增量不再对应上个周期）
+ */
+export function clearIncrements(account: AccountData): AccountData {
+  const result: AccountData = { ...account };
+  Object.values(INCREMENT_COLUMNS).forEach(field => {
+    result[field] = null;
+  });
+  return result;
+}
+
+/**
+ * 按账号汇总多个月份的数据
+ * 只有一个月份时直接使用该月原始数据，保留供应商的排名及比率
+ */
+export function rollupMonths(months: MonthAccounts[]): PeriodRollup {
+  const sorted = [...months].sort((a, b) => a.month.localeCompare(b.month));
+  const rowsByAccount = new Map<string, AccountData[]>();
+  const coverage: Record<string, string[]> = {};
+
+  sorted.forEach(({ month, accounts }) => {
+    accounts.forEach(account => {
+      const key = account.accountKey;
+      if (!rowsByAccount.has(key)) {
+        rowsByAccount.set(key, []);
+        coverage[key] = [];
+      }
+      // 同一月份出现重复账号时只取第一行
+      if (coverage[key].includes(month)) {
+        return;
+      }
+      rowsByAccount.get(key)!.push(account);
+      coverage[key].push(month);
+    });
+  });
+
+  const accounts = Array.from(rowsByAccount.values()).map(rows =>
+    sorted.length === 1 ? clearIncrements(rows[0]) : rollupAccountRows(rows)
+  );
+
+  return { accounts, coverage };
+}
+
+/**
+ * 根据基准周期数据计算增量，替换供应商预先计算的增量字段
+ * 没有基准数据或任一方无数据时增量为 null
+ */
+export function applyComputedIncrements(target: AccountData, base?: AccountData): AccountData {
+  const result: AccountData = { ...target };
+  Object.keys(INCREMENT_COLUMNS).forEach(field => {
+    const current = target[field];
+    const previous = base ? base[field] : null;
+    const incrementField = INCREMENT_COLUMNS[field];
+    if (typeof current !== 'number' || typeof previous !== 'number') {
+      result[incrementField] = null;
+      return;
+    }
+    result[incrementField] = computeIncrement(field, current, previous);
+  });
+  return result;
+}
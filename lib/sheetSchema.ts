@@ -0,0 +1,154 @@
+/**
+ * 榜单工作表的表头定义
+ * 供应商导出的列名并不统一（如 2025年1月 使用"在看"而之后使用"推荐"），
+ * 这里集中声明必填列、可选列及已知别名，解析时统一映射到标准列名。
+ */
+
+export interface ColumnSpec {
+  name: string;
+  type: 'text' | 'number';
+  required: boolean;
+  aliases?: string[];
+}
+
+export interface HeaderAlias {
+  header: string;
+  column: string;
+}
+
+export interface HeaderMapping {
+  // 每个表头位置对应的标准列名，空表头为 null
+  columns: (string | null)[];
+  missing: string[];
+  missingOptional: string[];
+  unknown: string[];
+  aliased: HeaderAlias[];
+  duplicates: string[];
+}
+
+function text(name: string, required: boolean, aliases?: string[]): ColumnSpec {
+  return { name, type: 'text', required, aliases };
+}
+
+function num(name: string, required: boolean, aliases?: string[]): ColumnSpec {
+  return { name, type: 'number', required, aliases };
+}
+
+export const RANKING_SHEET_SCHEMA: ColumnSpec[] = [
+  text('公众号', true, ['账号名称', '账号']),
+  text('帐号名', false, ['账号名', '微信号']),
+  num('文章总数', true, ['发文数']),
+  num('文章总增量', false),
+  num('超10W文章数', true, ['10万+']),
+  num('超10W文章数增量', false),
+  num('阅读总数', true, ['总阅读数']),
+  num('阅读总数增量', false),
+  num('平均阅读数', true, ['平均阅读']),
+  num('平均阅读数增量', false),
+  num('推荐总数', true, ['在看总数', '总在看数']),
+  num('推荐总数增量', false, ['在看总数增量']),
+  num('平均推荐数', false, ['平均在看数']),
+  num('平均推荐数增量', false, ['平均在看数增量']),
+  num('发布次数', false),
+  num('发布次数增量', false),
+  num('头条文章阅读量', true, ['头条阅读']),
+  num('头条文章阅读增量', false),
+  num('头条文章推荐数', false, ['头条文章在看数']),
+  num('最大阅读数', false),
+  num('最大推荐数', false, ['最大在看数']),
+  num('推荐率', false, ['在看率']),
+  num('点赞总数', true, ['总点赞数']),
+  num('点赞数增量', false),
+  num('最大点赞数', false),
+  num('头条文章点赞总数', false),
+  num('平均点赞数', false),
+  num('平均点赞数增量', false),
+  num('转发总量', true, ['总转发数']),
+  num('最大转发数', false),
+  num('头条转发总数', false),
+  num('WCI', false),
+  num('WCI增量', false),
+  num('总排名', true),
+  num('总排名变化', false),
+];
+
+/**
+ * 查找表头对应的列定义（标准列名优先，其次别名）
+ */
+export function findColumnSpec(header: string, schema: ColumnSpec[] = RANKING_SHEET_SCHEMA): ColumnSpec | undefined {
+  return schema.find(spec => spec.name === header)
+    || schema.find(spec => spec.aliases?.includes(header));
+}
+
+/**
+ * 将工作表表头映射到标准列名，并找出缺失、未知、别名及重复的列
+ */
+export function resolveHeaders(headers: string[], schema: ColumnSpec[] = RANKING_SHEET_SCHEMA): HeaderMapping {
+  const seen = new Set<string>();
+  const unknown: string[] = [];
+  const aliased: HeaderAlias[] = [];
+  const duplicates: string[] = [];
+
+  const columns = headers.map(header => {
+    if (!header) {
+      return null;
+    }
+
+    const spec = findColumnSpec(header, schema);
+    if (!spec) {
+      // 未知列仍按原列名保留
+      unknown.push(header);
+      return header;
+    }
+
+    if (seen.has(spec.name)) {
+      // 同一标准列出现多次时只取第一列
+      duplicates.push(header);
+      return null;
+    }
+    seen.add(spec.name);
+
+    if (spec.name !== header) {
+      aliased.push({ header, column: spec.name });
+    }
+    return spec.name;
+  });
+
+  return {
+    columns,
+    missing: schema.filter(spec => spec.required && !seen.has(spec.name)).map(spec => spec.name),
+    missingOptional: schema.filter(spec => !spec.required && !seen.has(spec.name)).map(spec => spec.name),
+    unknown,
+    aliased,
+    duplicates,
+  };
+}
+
+/**
+ * 判断列是否按文本读取；未知列也按文本原样保留，不做数字校验
+ */
+export function isTextColumn(column: string, schema: ColumnSpec[] = RANKING_SHEET_SCHEMA): boolean {
+  return !schema.some(spec => spec.name === column && spec.type !== 'text');
+}
+
+/**
+ * 数值列与对应的增量列（供应商导出时已按上个月计算好）
+ * 转发总量没有增量列，需要根据上个月数据计算
+ */
+export const INCREMENT_COLUMNS: Record<string, string> = {
+  文章总数: '文章总增量',
+  超10W文章数: '超10W文章数增量',
+  阅读总数: '阅读总数增量',
+  平均阅读数: '平均阅读数增量',
+  推荐总数: '推荐总数增量',
+  平均推荐数: '平均推荐数增量',
+  发布次数: '发布次数增量',
+  头条文章阅读量: '头条文章阅读增量',
+  点赞总数: '点赞数增量',
+  平均点赞数: '平均点赞数增量',
+  WCI: 'WCI增量',
+  总排名: '总排名变化',
+};
+
+// 排名类列的变化量为"上期 - 本期"，名次上升为正数
+export const RANK_COLUMNS = ['总排名'];
@@ -0,0 +1,203 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParsedSheet } from './workbookParser';
+import { SourceConflict, SourceRules, SourceSummary } from './sourceRules';
+
+/**
+ * 月度数据快照：将月份文件夹中的 Excel 解析、合并后保存为 JSON（data/.snapshots/YYYYMM.json）
+ * - 接口优先读取快照，来源文件或合并规则变化后快照视为过期，重新解析 Excel
+ * - 快照记录格式版本号，解析逻辑改变导致数据结构变化时需要提高 SNAPSHOT_SCHEMA_VERSION
+ * - 快照记录每个来源文件的 SHA-256，文件只是修改时间变化而内容未变时不重新解析
+ * - 数据有变化的快照另存为历史版本（data/.snapshots/history/YYYYMM/版本号.json），用于对比、固定和回滚
+ * - 回滚记录在 rollbacks.json 中，来源文件未变时重新解析（如合并规则变化）后仍恢复回滚的数据
+ */
+
+// 2：增加版本号及数据哈希
+// 3：未知列按文本保留
+export const SNAPSHOT_SCHEMA_VERSION = 3;
+
+export const SNAPSHOT_DIR_NAME = '.snapshots';
+
+// 一个月份合并后的数据，file 为优先级最高的来源文件，files 为参与合并的全部文件
+export interface MonthData {
+  month: string;
+  file: string;
+  files: string[];
+  sheet: ParsedSheet;
+  sources: SourceSummary[];
+  conflicts: SourceConflict[];
+}
+
+export interface FileStat {
+  file: string;
+  size: number;
+  mtimeMs: number;
+}
+
+export interface SourceFingerprint extends FileStat {
+  hash: string;
+}
+
+export interface MonthSnapshot {
+  schemaVersion: number;
+  month: string;
+  // 版本号，由生成时间得到，如 20250301-093000-000
+  version: string;
+  // data 的 SHA-256，数据未变化时不产生新版本
+  dataHash: string;
+  // 回滚生成的版本记录原版本号
+  restoredFrom?: string;
+  // 生成快照的时间（ISO 格式）
+  ingestedAt: string;
+  // 生成快照时使用的合并规则
+  rulesHash: string;
+  // 文件夹中全部来源文件（含解析失败的文件），按合并优先级排列
+  fingerprints: SourceFingerprint[];
+  data: MonthData;
+}
+
+// 快照与当前来源文件的对比结果；refreshed 表示文件内容未变、只需更新记录的修改时间
+export type SnapshotFreshness =
+  | { fresh: true; refreshed: boolean }
+  | { fresh: false; reason: string };
+
+function sha256(content: crypto.BinaryLike): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+export function hashFile(filePath: string): string {
+  return sha256(fs.readFileSync(filePath));
+}
+
+export function hashRules(rules: SourceRules): string {
+  return sha256(JSON.stringify(rules));
+}
+
+export function hashMonthData(data: MonthData): string {
+  return sha256(JSON.stringify(data));
+}
+
+/**
+ * 由时间生成版本号，按字符串排序即为时间顺序
+ */
+export function versionFromDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace('T', '-').replace('.', '-').replace('Z', '');
+}
+
+/**
+ * 同一毫秒内生成多个版本时版本号会相同，已有同名历史版本时加上序号（如 20250301-093000-000-01），
+ * 保证已保存的版本不会被覆盖
+ */
+export function uniqueVersion(historyDir: string, version: string): string {
+  let candidate = version;
+  for (let index = 1; fs.existsSync(path.resolve(historyDir, `${candidate}.json`)); index++) {
+    candidate = `${version}-${String(index).padStart(2, '0')}`;
+  }
+  return candidate;
+}
+
+/**
+ * 读取快照文件，文件不存在或内容不完整时返回 null
+ */
+export function readSnapshot(filePath: string): MonthSnapshot | null {
+  try {
+    const snapshot = JSON.parse(fs.readFileSync(filePath, 'utf8')) as MonthSnapshot;
+    if (typeof snapshot.schemaVersion !== 'number' || !Array.isArray(snapshot.fingerprints) || !snapshot.data?.sheet) {
+      return null;
+    }
+    return snapshot;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 写入快照文件，先写临时文件再重命名，避免读取到写了一半的快照
+ */
+export function writeSnapshot(filePath: string, snapshot: MonthSnapshot) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.writing`;
+  fs.writeFileSync(tempPath, JSON.stringify(snapshot, null, 2));
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * 判断快照是否仍与来源文件一致
+ * 大小和修改时间都相同时直接视为一致；只有修改时间不同时再比较文件内容的哈希
+ */
+export function checkSnapshot(
+  snapshot: MonthSnapshot,
+  monthDir: string,
+  stats: FileStat[],
+  rulesHash: string
+): SnapshotFreshness {
+  if (snapshot.schemaVersion !== SNAPSHOT_SCHEMA_VERSION) {
+    return { fresh: false, reason: `快照格式版本 ${snapshot.schemaVersion} 已过期` };
+  }
+  if (snapshot.rulesHash !== rulesHash) {
+    return { fresh: false, reason: '来源合并规则已修改' };
+  }
+  if (snapshot.fingerprints.map(item => item.file).join('\n') !== stats.map(item => item.file).join('\n')) {
+    return { fresh: false, reason: '来源文件已增加、删除或改名' };
+  }
+
+  let refreshed = false;
+  for (let index = 0; index < stats.length; index++) {
+    const stat = stats[index];
+    const fingerprint = snapshot.fingerprints[index];
+    if (stat.size !== fingerprint.size) {
+      return { fresh: false, reason: `${stat.file} 已修改` };
+    }
+    if (stat.mtimeMs === fingerprint.mtimeMs) {
+      continue;
+    }
+    if (hashFile(path.resolve(monthDir, stat.file)) !== fingerprint.hash) {
+      return { fresh: false, reason: `${stat.file} 已修改` };
+    }
+    fingerprint.mtimeMs = stat.mtimeMs;
+    refreshed = true;
+  }
+  return { fresh: true, refreshed };
+}
+
+/**
+ * 读取某个月份的全部历史版本，按版本号升序排列
+ */
+export function readVersionSnapshots(historyDir: string): MonthSnapshot[] {
+  if (!fs.existsSync(historyDir)) {
+    return [];
+  }
+  // 按去掉扩展名的版本号排序，带序号的版本排在同一时间的版本之后
+  return fs.readdirSync(historyDir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.slice(0, -'.json'.length))
+    .sort()
+    .map(version => readSnapshot(path.resolve(historyDir, `${version}.json`)))
+    .filter((snapshot): snapshot is MonthSnapshot => snapshot !== null);
+}
+
+/**
+ * 读取月份 → 版本号的记录（固定显示的版本、回滚生成的版本），文件不存在或格式不正确时视为没有记录
+ */
+export function readVersionMap(filePath: string): Record<string, string> {
+  try {
+    const versions = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return versions && typeof versions === 'object' && !Array.isArray(versions) ? versions : {};
+  } catch {
+    return {};
+  }
+}
+
+export function writeVersionMap(filePath: string, versions: Record<string, string>) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(versions, null, 2));
+}
+
+/**
+ * 两个快照的来源文件（文件名及内容哈希）是否相同，不比较修改时间
+ */
+export function sameSourceFiles(a: SourceFingerprint[], b: SourceFingerprint[]): boolean {
+  const key = (fingerprints: SourceFingerprint[]) => fingerprints.map(({ file, hash }) => `${file}:${hash}`).join('\n');
+  return key(a) === key(b);
+}
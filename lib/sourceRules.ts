@@ -0,0 +1,254 @@
+import { AccountData, ColumnCoercion, ParsedSheet } from './workbookParser';
+import { HeaderMapping, resolveHeaders } from './sheetSchema';
+import { applyDerivedFields } from './derivedMetrics';
+
+/**
+ * 月份文件夹中多个文件、多个工作表的合并规则，保存在 data/source-rules.json
+ * - 按规则选出要合并的工作表，依次合并各文件中的账号
+ * - 同一账号出现在多个来源时，优先级高的来源为准
+ * - 每行数据记录来源文件和工作表（sourceFile / sourceSheet）
+ */
+
+export type ConflictStrategy = 'keep' | 'fill';
+
+export interface SourceRules {
+  // 要合并的工作表名称，支持 * 通配符；默认合并全部工作表
+  includeSheets: string[];
+  // 不合并的工作表名称（如"说明"），支持 * 通配符
+  excludeSheets: string[];
+  // 不读取的文件名，支持 * 通配符
+  excludeFiles: string[];
+  // 来源优先级：文件名包含的关键字，靠前的优先；都不包含的文件排在最后，按文件名排序
+  sourcePriority: string[];
+  // 同一账号出现在多个来源时：keep 只保留优先级最高的一行；fill 另外用其他来源补全该行的空字段
+  onConflict: ConflictStrategy;
+}
+
+export const SOURCE_RULES_FILE_NAME = 'source-rules.json';
+
+export const DEFAULT_SOURCE_RULES: SourceRules = {
+  includeSheets: ['*'],
+  excludeSheets: [],
+  excludeFiles: [],
+  sourcePriority: [],
+  onConflict: 'keep',
+};
+
+// 一个工作表来源
+export interface SheetSource {
+  file: string;
+  sheetName: string;
+  sheet: ParsedSheet;
+}
+
+// 月份中每个工作表是否参与合并
+export interface SourceSummary {
+  file: string;
+  sheetName: string;
+  included: boolean;
+  rowCount: number;
+  // 未参与合并的原因
+  reason?: string;
+}
+
+// 同一账号出现在多个来源
+export interface SourceConflict {
+  accountKey: string;
+  accountName: string;
+  // 保留的来源（文件名#工作表）
+  kept: string;
+  // 被覆盖的来源
+  overridden: string[];
+  // onConflict 为 fill 时由其他来源补全的字段
+  filledFields: string[];
+}
+
+export interface MergedSources {
+  sheet: ParsedSheet;
+  conflicts: SourceConflict[];
+}
+
+const MAX_COERCION_SAMPLES = 3;
+
+// 不参与合并、也不用其他来源补全的字段
+const PROVENANCE_FIELDS = ['accountKey', 'sourceFile', 'sourceSheet'];
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * 校验配置文件内容，未提供的规则使用默认值
+ */
+export function parseSourceRules(raw: unknown): SourceRules {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('来源合并规则格式不正确：应为 JSON 对象');
+  }
+  const config = raw as Record<string, unknown>;
+  const rules: SourceRules = { ...DEFAULT_SOURCE_RULES };
+
+  (['includeSheets', 'excludeSheets', 'excludeFiles', 'sourcePriority'] as const).forEach(key => {
+    if (config[key] === undefined) {
+      return;
+    }
+    if (!isStringList(config[key])) {
+      throw new Error(`来源合并规则格式不正确：${key} 应为字符串数组`);
+    }
+    rules[key] = (config[key] as string[]).map(item => item.trim()).filter(Boolean);
+  });
+
+  if (config.onConflict !== undefined) {
+    if (config.onConflict !== 'keep' && config.onConflict !== 'fill') {
+      throw new Error(`来源合并规则格式不正确：onConflict 只能是 keep 或 fill`);
+    }
+    rules.onConflict = config.onConflict;
+  }
+
+  return rules;
+}
+
+/**
+ * 名称是否匹配规则中的任一模式，* 匹配任意字符
+ */
+export function matchesPattern(name: string, patterns: string[]): boolean {
+  return patterns.some(pattern => {
+    const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+    return regex.test(name);
+  });
+}
+
+export function isSheetIncluded(sheetName: string, rules: SourceRules): boolean {
+  return matchesPattern(sheetName, rules.includeSheets) && !matchesPattern(sheetName, rules.excludeSheets);
+}
+
+/**
+ * 按优先级排列文件，并去掉规则中排除的文件
+ */
+export function orderSourceFiles(files: string[], rules: SourceRules): string[] {
+  const priorityOf = (file: string) => {
+    const index = rules.sourcePriority.findIndex(keyword => file.includes(keyword));
+    return index < 0 ? rules.sourcePriority.length : index;
+  };
+  return files
+    .filter(file => !matchesPattern(file, rules.excludeFiles))
+    .sort((a, b) => priorityOf(a) - priorityOf(b) || a.localeCompare(b));
+}
+
+export function sourceLabel(file: string, sheetName: string): string {
+  return `${file}#${sheetName}`;
+}
+
+function unique<T>(items: T[]): T[] {
+  return Array.from(new Set(items));
+}
+
+/**
+ * 合并各来源的表头信息：缺失列为任一来源缺失的列，其余取并集
+ */
+function mergeSchemas(sources: SheetSource[], headers: string[]): HeaderMapping {
+  const schemas = sources.map(source => source.sheet.schema);
+  const aliased = schemas.flatMap(schema => schema.aliased);
+  return {
+    columns: resolveHeaders(headers).columns,
+    missing: unique(schemas.flatMap(schema => schema.missing)),
+    missingOptional: unique(schemas.flatMap(schema => schema.missingOptional)),
+    unknown: unique(schemas.flatMap(schema => schema.unknown)),
+    aliased: aliased.filter((alias, index) => aliased.findIndex(item => item.header === alias.header) === index),
+    duplicates: unique(schemas.flatMap(schema => schema.duplicates)),
+  };
+}
+
+function mergeCoercions(sources: SheetSource[]): ColumnCoercion[] {
+  const merged = new Map<string, ColumnCoercion>();
+  sources.flatMap(source => source.sheet.coercions).forEach(coercion => {
+    const existing = merged.get(coercion.column);
+    if (!existing) {
+      merged.set(coercion.column, { ...coercion, samples: [...coercion.samples] });
+      return;
+    }
+    existing.count += coercion.count;
+    existing.invalid += coercion.invalid;
+    existing.samples = [...existing.samples, ...coercion.samples].slice(0, MAX_COERCION_SAMPLES);
+  });
+  return Array.from(merged.values());
+}
+
+function isEmpty(value: string | number | null | undefined): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/**
+ * 合并多个工作表来源，sources 需按优先级排列（优先级高的在前）
+ * 同一来源中的重复账号保持原样，不同来源中的同一账号（按 accountKey）按 onConflict 处理
+ */
+export function mergeSheetSources(sources: SheetSource[], rules: SourceRules): MergedSources {
+  if (sources.length === 0) {
+    throw new Error('没有可合并的工作表');
+  }
+
+  const accounts: AccountData[] = [];
+  const ownerOf = new Map<string, string>();
+  const conflicts = new Map<string, SourceConflict>();
+
+  sources.forEach(source => {
+    const label = sourceLabel(source.file, source.sheetName);
+    source.sheet.accounts.forEach(row => {
+      const key = row.accountKey;
+      const owner = ownerOf.get(key);
+      if (owner === undefined || owner === label) {
+        ownerOf.set(key, label);
+        accounts.push({ ...row, sourceFile: source.file, sourceSheet: source.sheetName });
+        return;
+      }
+
+      const conflict = conflicts.get(key) || {
+        accountKey: key,
+        accountName: row.公众号 || row.帐号名 || key,
+        kept: owner,
+        overridden: [],
+        filledFields: [],
+      };
+      if (!conflict.overridden.includes(label)) {
+        conflict.overridden.push(label);
+      }
+      conflicts.set(key, conflict);
+
+      if (rules.onConflict !== 'fill') {
+        return;
+      }
+      const target = accounts.find(account => account.accountKey === key)!;
+      let filled = false;
+      Object.keys(row).forEach(field => {
+        if (PROVENANCE_FIELDS.includes(field) || !isEmpty(target[field]) || isEmpty(row[field])) {
+          return;
+        }
+        target[field] = row[field];
+        filled = true;
+        if (!conflict.filledFields.includes(field)) {
+          conflict.filledFields.push(field);
+        }
+      });
+      if (filled) {
+        // 补全了分子或分母时重新计算派生比率
+        applyDerivedFields(target);
+      }
+    });
+  });
+
+  const headers = unique(sources.flatMap(source => source.sheet.headers));
+  const primary = sources[0].sheet;
+  return {
+    sheet: {
+      sheetName: primary.sheetName,
+      headers,
+      schema: sources.length === 1 ? primary.schema : mergeSchemas(sources, headers),
+      accounts,
+      coercions: sources.length === 1 ? primary.coercions : mergeCoercions(sources),
+      diagnostics: sources.flatMap(source => source.sheet.diagnostics.map(diagnostic => ({
+        ...diagnostic,
+        source: sourceLabel(source.file, source.sheetName),
+      }))),
+    },
+    conflicts: Array.from(conflicts.values()),
+  };
+}
@@ -0,0 +1,120 @@
+import * as XLSX from 'xlsx';
+
+/**
+ * 表格导出为 Excel / CSV（浏览器端）
+ * 数值按原始数字写入单元格，不做"万""w"等显示格式化，便于分析时直接计算
+ */
+
+export type ExportCell = string | number | null;
+
+export interface ExportColumn {
+  header: string;
+  // Excel 数字格式，如百分比使用 '0.00%'
+  numberFormat?: string;
+}
+
+export interface ExportSheet {
+  name: string;
+  columns: ExportColumn[];
+  rows: ExportCell[][];
+}
+
+// UTF-8 BOM，Excel 打开 CSV 时据此识别编码，避免中文乱码
+const UTF8_BOM = '\uFEFF';
+
+// Excel 工作表名称最长 31 个字符，且不能包含 []:*?/\
+function toSheetName(name: string, usedNames: string[]): string {
+  const base = name.replace(/[\[\]:*?\/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let sheetName = base;
+  for (let index = 2; usedNames.includes(sheetName); index++) {
+    const suffix = `(${index})`;
+    sheetName = `${base.slice(0, 31 - suffix.length)}${suffix}`;
+  }
+  return sheetName;
+}
+
+function escapeCsvCell(cell: ExportCell): string {
+  if (cell === null || cell === undefined) {
+    return '';
+  }
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * 生成 CSV 文本（含 BOM）
+ */
+export function toCsv(sheet: ExportSheet): string {
+  const lines = [
+    sheet.columns.map(column => escapeCsvCell(column.header)),
+    ...sheet.rows.map(row => row.map(escapeCsvCell)),
+  ];
+  return UTF8_BOM + lines.map(line => line.join(',')).join('\r\n');
+}
+
+/**
+ * 将列相同的多个表格合并为一个，前面加一列标明来源（CSV 只能有一个表格）
+ */
+export function stackSheets(sheets: ExportSheet[], name: string, sourceHeader: string): ExportSheet {
+  return {
+    name,
+    columns: [{ header: sourceHeader }, ...(sheets[0]?.columns || [])],
+    rows: sheets.flatMap(sheet => sheet.rows.map(row => [sheet.name, ...row])),
+  };
+}
+
+/**
+ * 生成 Excel 工作簿，每个表格一个工作表
+ */
+export function toWorkbook(sheets: ExportSheet[]): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new();
+  const usedNames: string[] = [];
+
+  sheets.forEach(sheet => {
+    const worksheet = XLSX.utils.aoa_to_sheet([
+      sheet.columns.map(column => column.header),
+      ...sheet.rows,
+    ]);
+
+    sheet.columns.forEach((column, columnIndex) => {
+      if (!column.numberFormat) {
+        return;
+      }
+      sheet.rows.forEach((_, rowIndex) => {
+        const cell = worksheet[XLSX.utils.encode_cell({ r: rowIndex + 1, c: columnIndex })];
+        if (cell && cell.t === 'n') {
+          cell.z = column.numberFormat;
+        }
+      });
+    });
+
+    const sheetName = toSheetName(sheet.name, usedNames);
+    usedNames.push(sheetName);
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+  });
+
+  return workbook;
+}
+
+export function downloadCsv(sheet: ExportSheet, fileName: string) {
+  downloadBlob(new Blob([toCsv(sheet)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+}
+
+export function downloadXlsx(sheets: ExportSheet[], fileName: string) {
+  const content = XLSX.write(toWorkbook(sheets), { bookType: 'xlsx', type: 'array' });
+  downloadBlob(
+    new Blob([content], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `${fileName}.xlsx`
+  );
+}
@@ -0,0 +1,137 @@
+/**
+ * 看板表格的排序、筛选和搜索状态，以及与 URL 查询参数的相互转换
+ * 状态保存在 URL 中，便于把当前视图分享给同事
+ */
+
+export type SortBy = 'value' | 'increment';
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortState {
+  column: string;
+  by: SortBy;
+  direction: SortDirection;
+}
+
+// 数值范围筛选，min/max 为 null 表示不限
+export interface RangeFilter {
+  column: string;
+  min: number | null;
+  max: number | null;
+}
+
+export interface TableViewState {
+  query: string;
+  sort: SortState | null;
+  filters: RangeFilter[];
+  // 显示的列，null 表示使用默认列
+  columns: string[] | null;
+}
+
+// 从行数据中取某一列的数值（value 或 increment），无数据时返回 null
+export type ColumnAccessor<T> = (row: T, column: string, by: SortBy) => number | null;
+
+export const EMPTY_VIEW_STATE: TableViewState = { query: '', sort: null, filters: [], columns: null };
+
+function parseBound(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') {
+    return null;
+  }
+  const num = parseFloat(value);
+  return isNaN(num) ? null : num;
+}
+
+/**
+ * 从 URL 查询参数读取表格状态
+ * - q=关键词
+ * - sort=总阅读数（按数值）或 sort=总阅读数.increment（按增量），dir=asc|desc
+ * - filter=WCI:1500:（WCI ≥ 1500），可出现多次
+ * - cols=发文数,总阅读数,WCI（显示的列）
+ */
+export function parseViewState(params: URLSearchParams): TableViewState {
+  const sortParam = params.get('sort');
+  let sort: SortState | null = null;
+  if (sortParam) {
+    const [column, by] = sortParam.split('.');
+    sort = {
+      column,
+      by: by === 'increment' ? 'increment' : 'value',
+      direction: params.get('dir') === 'asc' ? 'asc' : 'desc',
+    };
+  }
+
+  const filters = params.getAll('filter')
+    .map(filter => {
+      const [column, min, max] = filter.split(':');
+      return { column, min: parseBound(min), max: parseBound(max) };
+    })
+    .filter(filter => filter.column && (filter.min !== null || filter.max !== null));
+
+  const cols = params.get('cols');
+  const columns = cols ? cols.split(',').filter(Boolean) : null;
+
+  return { query: params.get('q') || '', sort, filters, columns: columns && columns.length > 0 ? columns : null };
+}
+
+/**
+ * 将表格状态写入 URL 查询参数（会覆盖已有的 q/sort/dir/filter/cols 参数）
+ */
+export function writeViewState(state: TableViewState, params: URLSearchParams) {
+  ['q', 'sort', 'dir', 'filter', 'cols'].forEach(key => params.delete(key));
+
+  if (state.query) {
+    params.set('q', state.query);
+  }
+  if (state.sort) {
+    params.set('sort', state.sort.by === 'increment' ? `${state.sort.column}.increment` : state.sort.column);
+    params.set('dir', state.sort.direction);
+  }
+  state.filters.forEach(filter => {
+    params.append('filter', `${filter.column}:${filter.min ?? ''}:${filter.max ?? ''}`);
+  });
+  if (state.columns) {
+    params.set('cols', state.columns.join(','));
+  }
+}
+
+/**
+ * 按搜索关键词、数值范围筛选并排序，无数据的行始终排在最后
+ */
+export function applyTableView<T>(
+  rows: T[],
+  state: TableViewState,
+  getName: (row: T) => string,
+  getColumn: ColumnAccessor<T>
+): T[] {
+  const query = state.query.trim().toLowerCase();
+
+  const filtered = rows.filter(row => {
+    if (query && !getName(row).toLowerCase().includes(query)) {
+      return false;
+    }
+    return state.filters.every(filter => {
+      const value = getColumn(row, filter.column, 'value');
+      if (value === null) {
+        return false;
+      }
+      return (filter.min === null || value >= filter.min)
+        && (filter.max === null || value <= filter.max);
+    });
+  });
+
+  const sort = state.sort;
+  if (!sort) {
+    return filtered;
+  }
+
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return filtered
+    .map((row, index) => ({ row, index, value: getColumn(row, sort.column, sort.by) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) {
+        // 无数据排在最后，其余保持原顺序
+        return a.value === b.value ? a.index - b.index : a.value === null ? 1 : -1;
+      }
+      return (a.value - b.value) * factor || a.index - b.index;
+    })
+    .map(item => item.row);
+}
@@ -0,0 +1,127 @@
+import { AccountData } from './workbookParser';
+import { findMetric, getMetricIncrement, getMetricValue } from './metrics';
+
+/**
+ * 月度榜单摘要：排名、阅读增量及阅读增幅变化最大的账号，以及新上榜和跌出榜单的账号
+ * 增量与看板表格使用同一份数据（供应商增量或按上月计算的增量）
+ */
+
+export interface Mover {
+  accountKey: string;
+  accountName: string;
+  // 排序依据：排名变化（名次）、阅读增量或阅读增幅（小数）
+  change: number;
+  // 本月数值（排名或阅读总数），跌出榜单的账号为上个月的阅读总数
+  value: number | null;
+}
+
+export interface TopMovers {
+  rankRisers: Mover[];
+  rankFallers: Mover[];
+  readRisers: Mover[];
+  readFallers: Mover[];
+  growthRisers: Mover[];
+  growthFallers: Mover[];
+  // 本月出现、上个月没有的账号，按阅读总数降序
+  newEntrants: Mover[];
+  // 上个月出现、本月没有的账号，按上个月阅读总数降序
+  dropouts: Mover[];
+  newEntrantCount: number;
+  dropoutCount: number;
+}
+
+export const DEFAULT_MOVER_LIMIT = 5;
+
+function accountName(account: AccountData): string {
+  return account.公众号 || account.帐号名 || account.accountKey;
+}
+
+/**
+ * 按 change 取增长最多和下降最多的前 limit 个账号，不含变化为 0 的账号
+ */
+function splitMovers(movers: Mover[], limit: number): [Mover[], Mover[]] {
+  const risers = movers.filter(mover => mover.change > 0).sort((a, b) => b.change - a.change);
+  const fallers = movers.filter(mover => mover.change < 0).sort((a, b) => a.change - b.change);
+  return [risers.slice(0, limit), fallers.slice(0, limit)];
+}
+
+function byReads(accounts: AccountData[], limit: number): Mover[] {
+  const readMetric = findMetric('总阅读数')!;
+  return accounts
+    .map(account => ({
+      accountKey: account.accountKey,
+      accountName: accountName(account),
+      change: 0,
+      value: getMetricValue(readMetric, account),
+    }))
+    .sort((a, b) => (b.value ?? -Infinity) - (a.value ?? -Infinity))
+    .slice(0, limit);
+}
+
+/**
+ * 计算榜单摘要
+ * @param current 本月数据（增量字段按看板当前的增量来源）
+ * @param previous 上个月数据，为空时不计算新上榜和跌出榜单
+ */
+export function computeTopMovers(
+  current: AccountData[],
+  previous: AccountData[],
+  limit: number = DEFAULT_MOVER_LIMIT
+): TopMovers {
+  const rankMetric = findMetric('总排名')!;
+  const readMetric = findMetric('总阅读数')!;
+  const previousByKey = new Map(previous.map(account => [account.accountKey, account]));
+
+  const rankMovers: Mover[] = [];
+  const readMovers: Mover[] = [];
+  const growthMovers: Mover[] = [];
+  current.forEach(account => {
+    const previousAccount = previousByKey.get(account.accountKey);
+    const base = { accountKey: account.accountKey, accountName: accountName(account) };
+
+    const rank = getMetricValue(rankMetric, account);
+    const rankChange = getMetricIncrement(rankMetric, account, previousAccount);
+    if (rankChange !== null) {
+      rankMovers.push({ ...base, change: rankChange, value: rank });
+    }
+
+    const reads = getMetricValue(readMetric, account);
+    const readChange = getMetricIncrement(readMetric, account, previousAccount);
+    if (reads === null || readChange === null) {
+      return;
+    }
+    readMovers.push({ ...base, change: readChange, value: reads });
+    // 上月阅读数 = 本月 - 增量，与表格中的增量保持一致
+    const previousReads = reads - readChange;
+    if (previousReads > 0) {
+      growthMovers.push({ ...base, change: readChange / previousReads, value: reads });
+    }
+  });
+
+  const [rankRisers, rankFallers] = splitMovers(rankMovers, limit);
+  const [readRisers, readFallers] = splitMovers(readMovers, limit);
+  const [growthRisers, growthFallers] = splitMovers(growthMovers, limit);
+
+  // 没有阅读数据的行（如榜单末尾的导出记录行）不算上榜账号
+  const hasReads = (account: AccountData) => getMetricValue(readMetric, account) !== null;
+  let entered: AccountData[] = [];
+  let dropped: AccountData[] = [];
+  if (previous.length > 0) {
+    const currentKeys = new Set(current.map(account => account.accountKey));
+    entered = current.filter(account => hasReads(account) && !previousByKey.has(account.accountKey));
+    dropped = previous.filter(account => hasReads(account) && !currentKeys.has(account.accountKey));
+  }
+
+  return {
+    rankRisers,
+    rankFallers,
+    readRisers,
+    readFallers,
+    growthRisers,
+    growthFallers,
+    newEntrants: byReads(entered, limit),
+    dropouts: byReads(dropped, limit),
+    newEntrantCount: entered.length,
+    dropoutCount: dropped.length,
+  };
+}
@@ -0,0 +1,110 @@
+import { AccountData } from './workbookParser';
+
+/**
+ * 月度数据的历史版本及版本间对比
+ * 每次导入的数据有变化时保存一个版本；看板可以固定显示某个版本，或回滚到某个版本
+ */
+
+export interface VersionSummary {
+  version: string;
+  ingestedAt: string;
+  // 该版本的来源文件及内容哈希
+  files: { file: string; hash: string }[];
+  rowCount: number;
+  // 回滚生成的版本记录原版本号
+  restoredFrom?: string;
+}
+
+export interface FieldChange {
+  field: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface AccountChange {
+  accountKey: string;
+  accountName: string;
+  changes: FieldChange[];
+}
+
+export interface AccountRef {
+  accountKey: string;
+  accountName: string;
+}
+
+export interface VersionDiff {
+  added: AccountRef[];
+  removed: AccountRef[];
+  changed: AccountChange[];
+  unchanged: number;
+}
+
+// 来源信息不属于数据本身，换文件名不视为数据变化
+const IGNORED_FIELDS = ['accountKey', 'sourceFile', 'sourceSheet'];
+
+function toRef(account: AccountData): AccountRef {
+  return { accountKey: account.accountKey, accountName: account.公众号 || account.帐号名 || account.accountKey };
+}
+
+function normalize(value: string | number | null | undefined): string | number | null {
+  return value === undefined || value === '' ? null : value;
+}
+
+// 文件中没有账号名称的行（如导出记录说明）不参与对比
+function indexAccounts(accounts: AccountData[]): Map<string, AccountData> {
+  const index = new Map<string, AccountData>();
+  accounts.forEach(account => {
+    if (account.accountKey && !index.has(account.accountKey)) {
+      index.set(account.accountKey, account);
+    }
+  });
+  return index;
+}
+
+/**
+ * 对比两个版本的账号数据，按 accountKey 匹配
+ */
+export function diffAccounts(from: AccountData[], to: AccountData[]): VersionDiff {
+  const before = indexAccounts(from);
+  const after = indexAccounts(to);
+  const diff: VersionDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+
+  after.forEach((account, key) => {
+    const previous = before.get(key);
+    if (!previous) {
+      diff.added.push(toRef(account));
+      return;
+    }
+    const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(account)]))
+      .filter(field => !IGNORED_FIELDS.includes(field));
+    const changes = fields
+      .map(field => ({ field, before: normalize(previous[field]), after: normalize(account[field]) }))
+      .filter(change => change.before !== change.after);
+    if (changes.length > 0) {
+      diff.changed.push({ ...toRef(account), changes });
+    } else {
+      diff.unchanged++;
+    }
+  });
+  before.forEach((account, key) => {
+    if (!after.has(key)) {
+      diff.removed.push(toRef(account));
+    }
+  });
+
+  return diff;
+}
+
+/**
+ * 版本号转为本地时间，如 20250301-093000-000 → 2025-03-01 17:30:00（UTC+8）
+ */
+export function formatVersion(version: string): string {
+  const match = version.match(/^(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})/);
+  if (!match) {
+    return version;
+  }
+  const date = new Date(Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +match[6]));
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} `
+    + `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
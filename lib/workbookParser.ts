@@ -0,0 +1,292 @@
+import * as XLSX from 'xlsx';
+import { HeaderMapping, isTextColumn, resolveHeaders } from './sheetSchema';
+import { defaultAccountKey } from './accountIdentity';
+import { applyDerivedFields } from './derivedMetrics';
+
+/**
+ * 榜单中的一行账号数据，数字字段为 null 表示无数据（如"--"或空单元格）
+ */
+export interface AccountData {
+  公众号: string;
+  帐号名: string;
+  文章总数: number | null;
+  文章总增量: number | null;
+  超10W文章数: number | null;
+  超10W文章数增量: number | null;
+  阅读总数: number | null;
+  阅读总数增量: number | null;
+  平均阅读数: number | null;
+  平均阅读数增量: number | null;
+  推荐总数: number | null;
+  推荐总数增量: number | null;
+  平均推荐数: number | null;
+  平均推荐数增量: number | null;
+  发布次数: number | null;
+  发布次数增量: number | null;
+  头条文章阅读量: number | null;
+  头条文章阅读增量: number | null;
+  头条文章推荐数: number | null;
+  最大阅读数: number | null;
+  最大推荐数: number | null;
+  推荐率: number | null;
+  点赞总数: number | null;
+  点赞数增量: number | null;
+  最大点赞数: number | null;
+  头条文章点赞总数: number | null;
+  平均点赞数: number | null;
+  平均点赞数增量: number | null;
+  转发总量: number | null;
+  最大转发数: number | null;
+  头条转发总数: number | null;
+  WCI: number | null;
+  WCI增量: number | null;
+  总排名: number | null;
+  总排名变化: number | null;
+  // 派生比率（解析时计算，见 derivedMetrics.ts）
+  点赞率: number | null;
+  转发率: number | null;
+  头条阅读占比: number | null;
+  '10万+命中率': number | null;
+  单次发布阅读: number | null;
+  accountKey: string; // 账号唯一标识，用于跨月份匹配（见 accountIdentity.ts）
+  // 数据来源：文件名及工作表名（一个月份有多个文件或工作表时见 sourceRules.ts）
+  sourceFile: string;
+  sourceSheet: string;
+  [key: string]: string | number | null; // 允许其他字段
+}
+
+/**
+ * 单元格解析诊断信息
+ * row 为 Excel 中的行号（表头为第 1 行）
+ */
+export interface ParseDiagnostic {
+  row: number;
+  column: string;
+  value: unknown;
+  message: string;
+  // 合并多个工作表时标明所在的文件和工作表
+  source?: string;
+}
+
+/**
+ * 由文本转换为数字的列（如"1246W+"），invalid 为无法解析而按无数据处理的单元格数
+ */
+export interface ColumnCoercion {
+  column: string;
+  count: number;
+  invalid: number;
+  samples: unknown[];
+}
+
+export interface ParsedSheet {
+  sheetName: string;
+  headers: string[];
+  schema: HeaderMapping;
+  accounts: AccountData[];
+  coercions: ColumnCoercion[];
+  diagnostics: ParseDiagnostic[];
+}
+
+const MAX_COERCION_SAMPLES = 3;
+
+// 表示"无数据"的占位符
+const MISSING_PLACEHOLDERS = ['', '-', '--', '—', '——', '/', 'N/A', 'n/a', 'null', '无'];
+
+// 数字后缀对应的倍数
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  '亿': 100000000,
+  '万': 10000,
+  'w': 10000,
+  'W': 10000,
+  '千': 1000,
+  'k': 1000,
+  'K': 1000,
+  '%': 0.01,
+};
+
+const NUMBER_PATTERN = /^(-?\d+(?:\.\d+)?|-?\.\d+)(亿|万|w|W|千|k|K|%)?$/;
+
+/**
+ * 单元格数字解析结果
+ * value 为 null 表示无数据；valid 为 false 表示内容无法识别
+ */
+export interface NumericCell {
+  value: number | null;
+  valid: boolean;
+}
+
+/**
+ * 解析数字单元格，支持以下格式：
+ * - 单位：亿、万/w/W、千/k/K，如 1.2亿、3.5万、1246W+
+ * - 千分位逗号：1,234
+ * - 百分比：12.5% 解析为 0.125
+ * - 占位符：空值、"-"、"--" 等解析为 null（无数据）
+ */
+export function parseNumericCell(value: unknown): NumericCell {
+  if (value === null || value === undefined) {
+    return { value: null, valid: true };
+  }
+
+  if (typeof value === 'number') {
+    return isFinite(value) ? { value, valid: true } : { value: null, valid: false };
+  }
+
+  if (typeof value !== 'string') {
+    return { value: null, valid: false };
+  }
+
+  // 移除空白、千分位逗号和加号（如"1246W+"）
+  const cleaned = value.replace(/[\s,，+]/g, '');
+  if (MISSING_PLACEHOLDERS.includes(cleaned)) {
+    return { value: null, valid: true };
+  }
+
+  const match = cleaned.match(NUMBER_PATTERN);
+  if (!match) {
+    return { value: null, valid: false };
+  }
+
+  const num = parseFloat(match[1]);
+  const multiplier = match[2] ? UNIT_MULTIPLIERS[match[2]] : 1;
+  // 保留 12 位有效数字，避免 1.2亿、12.5% 这类值出现浮点误差
+  return { value: parseFloat((num * multiplier).toPrecision(12)), valid: true };
+}
+
+/**
+ * 解析数字，无数据或无法解析时返回 null
+ */
+export function parseNumber(value: unknown): number | null {
+  return parseNumericCell(value).value;
+}
+
+/**
+ * 将 sheet_to_json(header: 1) 得到的二维数组解析为账号数据
+ * 第一行为表头，空行（公众号和帐号名都为空）会被跳过
+ */
+export function parseSheetRows(rows: unknown[][], sheetName = ''): ParsedSheet {
+  if (!rows || rows.length < 2) {
+    throw new Error('Excel 文件格式不正确，至少需要表头和数据行');
+  }
+
+  const headers = (rows[0] || []).map(header => (header ?? '').toString().trim());
+  if (headers.length === 0 || headers.every(header => !header)) {
+    throw new Error('Excel 文件缺少表头');
+  }
+
+  const schema = resolveHeaders(headers);
+  const nameColumns = ['公众号', '帐号名']
+    .map(name => schema.columns.indexOf(name))
+    .filter(index => index >= 0);
+  if (nameColumns.length === 0) {
+    nameColumns.push(0, 1);
+  }
+
+  const accounts: AccountData[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  const coercionMap = new Map<string, ColumnCoercion>();
+
+  rows.slice(1).forEach((row, index) => {
+    // 过滤空行（检查公众号或帐号名）
+    if (!row || !nameColumns.some(column => row[column])) {
+      return;
+    }
+
+    const rowNumber = index + 2;
+    const account: Record<string, string | number | null> = {};
+    schema.columns.forEach((field, column) => {
+      if (!field) {
+        return;
+      }
+      const value = row[column];
+      if (isTextColumn(field)) {
+        account[field] = value?.toString().trim() || '';
+        return;
+      }
+
+      const parsed = parseNumericCell(value);
+      if (typeof value === 'string' && value.trim() !== '') {
+        const coercion = coercionMap.get(field) || { column: field, count: 0, invalid: 0, samples: [] };
+        coercion.count++;
+        if (!parsed.valid) {
+          coercion.invalid++;
+        }
+        if (coercion.samples.length < MAX_COERCION_SAMPLES) {
+          coercion.samples.push(value);
+        }
+        coercionMap.set(field, coercion);
+      }
+      if (!parsed.valid) {
+        diagnostics.push({
+          row: rowNumber,
+          column: field,
+          value,
+          message: `无法解析为数字，已按无数据处理`,
+        });
+      }
+      account[field] = parsed.value;
+    });
+    applyDerivedFields(account);
+    account.accountKey = defaultAccountKey(account as AccountData);
+    account.sourceFile = '';
+    account.sourceSheet = sheetName;
+    accounts.push(account as AccountData);
+  });
+
+  const coercions = Array.from(coercionMap.values());
+  return { sheetName, headers, schema, accounts, coercions, diagnostics };
+}
+
+/**
+ * 工作簿中一个工作表的解析结果，无法解析时 sheet 为 null
+ */
+export interface WorkbookSheet {
+  sheetName: string;
+  sheet: ParsedSheet | null;
+  error?: string;
+}
+
+function parseWorksheet(workbook: XLSX.WorkBook, sheetName: string): ParsedSheet {
+  const worksheet = workbook.Sheets[sheetName];
+  if (!worksheet) {
+    throw new Error('无法读取工作表数据');
+  }
+
+  const rows = XLSX.utils.sheet_to_json(worksheet, {
+    header: 1,
+    defval: ''
+  }) as unknown[][];
+
+  return parseSheetRows(rows, sheetName);
+}
+
+/**
+ * 解析工作簿的第一个工作表
+ */
+export function parseWorkbook(workbook: XLSX.WorkBook): ParsedSheet {
+  if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
+    throw new Error('Excel 文件中没有工作表');
+  }
+
+  return parseWorksheet(workbook, workbook.SheetNames[0]);
+}
+
+/**
+ * 解析工作簿的所有工作表，单个工作表解析失败不影响其他工作表
+ */
+export function parseWorkbookSheets(workbook: XLSX.WorkBook): WorkbookSheet[] {
+  if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
+    throw new Error('Excel 文件中没有工作表');
+  }
+
+  return workbook.SheetNames.map(sheetName => {
+    try {
+      return { sheetName, sheet: parseWorksheet(workbook, sheetName) };
+    } catch (parseError) {
+      return {
+        sheetName,
+        sheet: null,
+        error: parseError instanceof Error ? parseError.message : '解析 Excel 数据失败'
+      };
+    }
+  });
+}
@@ -0,0 +1,44 @@
+import { ingestMonth, listMonths } from '../lib/dataStore';
+
+/**
+ * 命令行生成 JSON 快照，需在项目根目录执行：
+ *   npm run ingest                  处理所有月份
+ *   npm run ingest -- 202501 202502 只处理指定月份
+ *   npm run ingest -- --force       即使快照仍有效也重新解析
+ */
+
+const STATUS_LABELS = {
+  created: '已生成',
+  updated: '已更新',
+  unchanged: '未变化',
+};
+
+function main() {
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const requested = args.filter(arg => !arg.startsWith('--'));
+  const months = requested.length > 0 ? requested : listMonths();
+
+  if (months.length === 0) {
+    console.log('没有找到包含 Excel 文件的月份文件夹');
+    return;
+  }
+
+  let failed = 0;
+  months.forEach(month => {
+    const result = ingestMonth(month, force);
+    if (!result.ok) {
+      failed++;
+      console.error(`${month}  失败：${result.error}`);
+      return;
+    }
+    const reason = result.reason ? `（${result.reason}）` : '';
+    console.log(`${month}  ${STATUS_LABELS[result.status]}${reason}  ${result.rowCount} 行`);
+  });
+
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main();